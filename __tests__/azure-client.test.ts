@@ -38,14 +38,39 @@ describe('AzureApimClient', () => {
       },
       apiPolicy: {
         createOrUpdate: jest.fn(),
-        get: jest.fn()
+        get: jest.fn(),
+        delete: jest.fn()
       },
       apiOperationPolicy: {
         createOrUpdate: jest.fn(),
-        get: jest.fn()
+        get: jest.fn(),
+        delete: jest.fn()
       },
       apiManagementService: {
         get: jest.fn()
+      },
+      policy: {
+        createOrUpdate: jest.fn(),
+        get: jest.fn()
+      },
+      product: {
+        listByService: jest.fn()
+      },
+      productPolicy: {
+        createOrUpdate: jest.fn(),
+        get: jest.fn()
+      },
+      policyFragment: {
+        beginCreateOrUpdateAndWait: jest.fn(),
+        get: jest.fn()
+      },
+      namedValue: {
+        beginCreateOrUpdateAndWait: jest.fn(),
+        listByService: jest.fn()
+      },
+      backend: {
+        createOrUpdate: jest.fn(),
+        listByService: jest.fn()
       }
     }
 
@@ -63,6 +88,7 @@ describe('AzureApimClient', () => {
     // Setup default mock responses for API listing
     mockClient.api.listByService.mockReturnValue(createAsyncIterator([]))
     mockClient.apiOperation.listByApi.mockReturnValue(createAsyncIterator([]))
+    mockClient.product.listByService.mockReturnValue(createAsyncIterator([]))
 
     mockApiManagementClient.mockImplementation(() => mockClient)
   })
@@ -134,8 +160,10 @@ describe('AzureApimClient', () => {
       )
 
       expect(result).toEqual({
+        scope: 'api',
         apiId: 'test-api',
         updated: true,
+        status: 'updated',
         etag: 'test-etag'
       })
       expect(mockClient.apiPolicy.createOrUpdate).toHaveBeenCalledWith(
@@ -146,7 +174,8 @@ describe('AzureApimClient', () => {
         {
           value: '<policies></policies>',
           format: 'xml'
-        }
+        },
+        { ifMatch: undefined }
       )
     })
 
@@ -175,8 +204,10 @@ describe('AzureApimClient', () => {
       )
 
       expect(result).toEqual({
+        scope: 'api',
         apiId: 'test-api',
         updated: false,
+        status: 'failed',
         error: 'Update failed'
       })
     })
@@ -225,6 +256,48 @@ describe('AzureApimClient', () => {
       expect(result.updated).toBe(false)
       expect(result.error).toBe('Inner Azure error')
     })
+
+    it('should report a conflict when the ETag no longer matches', async () => {
+      const createAsyncIterator = (items: any[]) => ({
+        [Symbol.asyncIterator]: async function* () {
+          for (const item of items) {
+            yield item
+          }
+        }
+      })
+
+      mockClient.api.listByService.mockReturnValue(
+        createAsyncIterator([{ name: 'test-api' }])
+      )
+
+      const preconditionFailed: any = new Error('Precondition failed')
+      preconditionFailed.statusCode = 412
+      mockClient.apiPolicy.createOrUpdate.mockRejectedValue(preconditionFailed)
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateApiPolicy(
+        'test-api',
+        '<policies/>',
+        'etag-1'
+      )
+
+      expect(mockClient.apiPolicy.createOrUpdate).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'test-api',
+        'policy',
+        { value: '<policies/>', format: 'xml' },
+        { ifMatch: 'etag-1' }
+      )
+      expect(result).toEqual({
+        scope: 'api',
+        apiId: 'test-api',
+        updated: false,
+        status: 'conflict',
+        error:
+          'The live policy was changed after it was compared (ETag mismatch)'
+      })
+    })
   })
 
   describe('updateOperationPolicy', () => {
@@ -260,9 +333,11 @@ describe('AzureApimClient', () => {
       )
 
       expect(result).toEqual({
+        scope: 'operation',
         apiId: 'test-api',
         operationId: 'test-op',
         updated: true,
+        status: 'updated',
         etag: 'test-etag-op'
       })
       expect(mockClient.apiOperationPolicy.createOrUpdate).toHaveBeenCalledWith(
@@ -274,7 +349,8 @@ describe('AzureApimClient', () => {
         {
           value: '<policies></policies>',
           format: 'xml'
-        }
+        },
+        { ifMatch: undefined }
       )
     })
 
@@ -307,13 +383,57 @@ describe('AzureApimClient', () => {
       )
 
       expect(result).toEqual({
+        scope: 'operation',
         apiId: 'test-api',
         operationId: 'test-op',
         updated: false,
+        status: 'failed',
         error: 'Operation update failed'
       })
     })
 
+    it('should report a conflict when the ETag no longer matches', async () => {
+      const createAsyncIterator = (items: any[]) => ({
+        [Symbol.asyncIterator]: async function* () {
+          for (const item of items) {
+            yield item
+          }
+        }
+      })
+
+      mockClient.api.listByService.mockReturnValue(
+        createAsyncIterator([{ name: 'test-api' }])
+      )
+      mockClient.apiOperation.listByApi.mockReturnValue(
+        createAsyncIterator([{ name: 'test-op' }])
+      )
+
+      const preconditionFailed: any = new Error('Precondition failed')
+      preconditionFailed.statusCode = 412
+      mockClient.apiOperationPolicy.createOrUpdate.mockRejectedValue(
+        preconditionFailed
+      )
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateOperationPolicy(
+        'test-api',
+        'test-op',
+        '<policies/>',
+        'etag-2'
+      )
+
+      expect(
+        mockClient.apiOperationPolicy.createOrUpdate.mock.calls[0][6]
+      ).toEqual({ ifMatch: 'etag-2' })
+      expect(result).toEqual(
+        expect.objectContaining({
+          operationId: 'test-op',
+          updated: false,
+          status: 'conflict'
+        })
+      )
+    })
+
     it('should return not updated when API or operation does not exist', async () => {
       const createAsyncIterator = (items: any[]) => ({
         [Symbol.asyncIterator]: async function* () {
@@ -368,6 +488,476 @@ describe('AzureApimClient', () => {
     })
   })
 
+  describe('policy deletion', () => {
+    it('should delete an API policy', async () => {
+      mockClient.apiPolicy.delete.mockResolvedValue(undefined)
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.deleteApiPolicy('api1')
+
+      expect(result).toEqual({
+        scope: 'api',
+        apiId: 'api1',
+        action: 'deleted',
+        pruned: true
+      })
+      expect(mockClient.apiPolicy.delete).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'api1',
+        'policy',
+        '*'
+      )
+    })
+
+    it('should delete an operation policy', async () => {
+      mockClient.apiOperationPolicy.delete.mockResolvedValue(undefined)
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.deleteOperationPolicy('api1', 'op1')
+
+      expect(result).toEqual({
+        scope: 'operation',
+        apiId: 'api1',
+        operationId: 'op1',
+        action: 'deleted',
+        pruned: true
+      })
+      expect(mockClient.apiOperationPolicy.delete).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'api1',
+        'op1',
+        'policy',
+        '*'
+      )
+    })
+
+    it('should return the Azure error message on failure', async () => {
+      const azureError: any = new Error('outer')
+      azureError.response = { data: { message: 'Forbidden' } }
+      mockClient.apiOperationPolicy.delete.mockRejectedValue(azureError)
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.deleteOperationPolicy('api1', 'op1')
+
+      expect(result).toEqual({
+        scope: 'operation',
+        apiId: 'api1',
+        operationId: 'op1',
+        action: 'deleted',
+        pruned: false,
+        error: 'Forbidden'
+      })
+    })
+  })
+
+  describe('updateServicePolicy', () => {
+    it('should update the global policy', async () => {
+      mockClient.policy.createOrUpdate.mockResolvedValue({ eTag: 'g-etag' })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateServicePolicy('<policies />')
+
+      expect(result).toEqual({
+        scope: 'global',
+        updated: true,
+        status: 'updated',
+        etag: 'g-etag'
+      })
+      expect(mockClient.policy.createOrUpdate).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'policy',
+        { value: '<policies />', format: 'xml' }
+      )
+    })
+
+    it('should return a failed result with the Azure error message', async () => {
+      const azureError: any = new Error('outer')
+      azureError.response = { data: { message: 'Global policy error' } }
+      mockClient.policy.createOrUpdate.mockRejectedValue(azureError)
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateServicePolicy('<policies />')
+
+      expect(result).toEqual({
+        scope: 'global',
+        updated: false,
+        status: 'failed',
+        error: 'Global policy error'
+      })
+    })
+  })
+
+  describe('updateProductPolicy', () => {
+    const createAsyncIterator = (items: any[]) => ({
+      [Symbol.asyncIterator]: async function* () {
+        for (const item of items) {
+          yield item
+        }
+      }
+    })
+
+    it('should update the product policy', async () => {
+      mockClient.product.listByService.mockReturnValue(
+        createAsyncIterator([{ name: 'starter' }])
+      )
+      mockClient.productPolicy.createOrUpdate.mockResolvedValue({
+        eTag: 'p-etag'
+      })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateProductPolicy('starter', '<policies />')
+
+      expect(result).toEqual({
+        scope: 'product',
+        productId: 'starter',
+        updated: true,
+        status: 'updated',
+        etag: 'p-etag'
+      })
+      expect(mockClient.productPolicy.createOrUpdate).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'starter',
+        'policy',
+        { value: '<policies />', format: 'xml' }
+      )
+    })
+
+    it('should return not updated when product does not exist', async () => {
+      mockClient.product.listByService.mockReturnValue(
+        createAsyncIterator([{ name: 'unlimited' }])
+      )
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateProductPolicy('starter', '<p/>')
+
+      expect(result.updated).toBe(false)
+      expect(result.error).toBe(
+        "Product 'starter' not found. Available products: unlimited"
+      )
+      expect(mockClient.productPolicy.createOrUpdate).not.toHaveBeenCalled()
+    })
+
+    it('should return a failed result when the update fails', async () => {
+      mockClient.product.listByService.mockReturnValue(
+        createAsyncIterator([{ name: 'starter' }])
+      )
+      mockClient.productPolicy.createOrUpdate.mockRejectedValue(
+        new Error('Product update failed')
+      )
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateProductPolicy('starter', '<p/>')
+
+      expect(result).toEqual({
+        scope: 'product',
+        productId: 'starter',
+        updated: false,
+        status: 'failed',
+        error: 'Product update failed'
+      })
+    })
+  })
+
+  describe('updatePolicyFragment', () => {
+    it('should create or update the policy fragment', async () => {
+      mockClient.policyFragment.beginCreateOrUpdateAndWait.mockResolvedValue({
+        eTag: 'f-etag'
+      })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updatePolicyFragment('auth', '<fragment />')
+
+      expect(result).toEqual({
+        scope: 'fragment',
+        fragmentId: 'auth',
+        updated: true,
+        status: 'updated',
+        etag: 'f-etag'
+      })
+      expect(
+        mockClient.policyFragment.beginCreateOrUpdateAndWait
+      ).toHaveBeenCalledWith('test-rg', 'test-apim', 'auth', {
+        value: '<fragment />',
+        format: 'xml'
+      })
+    })
+
+    it('should return a failed result with the Azure error message', async () => {
+      const azureError: any = new Error('outer')
+      azureError.response = { data: { message: 'Fragment error' } }
+      mockClient.policyFragment.beginCreateOrUpdateAndWait.mockRejectedValue(
+        azureError
+      )
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updatePolicyFragment('auth', '<fragment />')
+
+      expect(result).toEqual({
+        scope: 'fragment',
+        fragmentId: 'auth',
+        updated: false,
+        status: 'failed',
+        error: 'Fragment error'
+      })
+    })
+  })
+
+  describe('policy getters', () => {
+    it('should return the current policy fragment and ETag', async () => {
+      mockClient.policyFragment.get.mockResolvedValue({
+        value: '<fragment />',
+        eTag: 'etag-f'
+      })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.getPolicyFragment('auth')
+
+      expect(result).toEqual({ content: '<fragment />', etag: 'etag-f' })
+      expect(mockClient.policyFragment.get).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'auth',
+        { format: 'xml' }
+      )
+    })
+
+    it('should return the current product policy and ETag', async () => {
+      mockClient.productPolicy.get.mockResolvedValue({
+        value: '<policies />',
+        eTag: 'etag-p'
+      })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.getProductPolicy('starter')
+
+      expect(result).toEqual({ content: '<policies />', etag: 'etag-p' })
+      expect(mockClient.productPolicy.get).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'starter',
+        'policy',
+        { format: 'xml' }
+      )
+    })
+
+    it('should return the current global policy and ETag', async () => {
+      mockClient.policy.get.mockResolvedValue({
+        value: '<policies />',
+        eTag: 'etag-g'
+      })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.getServicePolicy()
+
+      expect(result).toEqual({ content: '<policies />', etag: 'etag-g' })
+      expect(mockClient.policy.get).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'policy',
+        { format: 'xml' }
+      )
+    })
+
+    it('should return the current API policy and ETag', async () => {
+      mockClient.apiPolicy.get.mockResolvedValue({
+        value: '<policies />',
+        eTag: 'etag-1'
+      })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.getApiPolicy('api1')
+
+      expect(result).toEqual({ content: '<policies />', etag: 'etag-1' })
+      expect(mockClient.apiPolicy.get).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'api1',
+        'policy',
+        { format: 'xml' }
+      )
+    })
+
+    it('should return the current operation policy and ETag', async () => {
+      mockClient.apiOperationPolicy.get.mockResolvedValue({
+        value: '<policies />',
+        eTag: 'etag-2'
+      })
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.getOperationPolicy('api1', 'op1')
+
+      expect(result).toEqual({ content: '<policies />', etag: 'etag-2' })
+      expect(mockClient.apiOperationPolicy.get).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'api1',
+        'op1',
+        'policy',
+        { format: 'xml' }
+      )
+    })
+
+    it('should return null when no policy exists', async () => {
+      const notFound: any = new Error('Not found')
+      notFound.statusCode = 404
+      mockClient.apiPolicy.get.mockRejectedValue(notFound)
+      mockClient.apiOperationPolicy.get.mockRejectedValue(notFound)
+
+      const client = new AzureApimClient(mockConfig)
+
+      expect(await client.getApiPolicy('api1')).toBeNull()
+      expect(await client.getOperationPolicy('api1', 'op1')).toBeNull()
+    })
+
+    it('should throw on other errors', async () => {
+      mockClient.apiPolicy.get.mockRejectedValue(new Error('Forbidden'))
+
+      const client = new AzureApimClient(mockConfig)
+
+      await expect(client.getApiPolicy('api1')).rejects.toThrow(
+        'Failed to get API policy for api1: Forbidden'
+      )
+    })
+  })
+
+  describe('updateNamedValue', () => {
+    it('should create or update a Key Vault named value', async () => {
+      mockClient.namedValue.beginCreateOrUpdateAndWait.mockResolvedValue({})
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateNamedValue({
+        namedValueId: 'cert',
+        displayName: 'cert',
+        secret: true,
+        keyVault: { secretIdentifier: 'https://vault/secrets/cert' }
+      })
+
+      expect(result).toEqual({ namedValueId: 'cert', updated: true })
+      expect(
+        mockClient.namedValue.beginCreateOrUpdateAndWait
+      ).toHaveBeenCalledWith('test-rg', 'test-apim', 'cert', {
+        displayName: 'cert',
+        value: undefined,
+        secret: true,
+        keyVault: { secretIdentifier: 'https://vault/secrets/cert' },
+        tags: undefined
+      })
+    })
+
+    it('should return the Azure error message on failure', async () => {
+      const azureError: any = new Error('outer')
+      azureError.response = { data: { message: 'Invalid display name' } }
+      mockClient.namedValue.beginCreateOrUpdateAndWait.mockRejectedValue(
+        azureError
+      )
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateNamedValue({
+        namedValueId: 'a b',
+        displayName: 'a b',
+        value: 'x',
+        secret: false
+      })
+
+      expect(result).toEqual({
+        namedValueId: 'a b',
+        updated: false,
+        error: 'Invalid display name'
+      })
+    })
+  })
+
+  describe('listNamedValues', () => {
+    it('should list named value display names', async () => {
+      mockClient.namedValue.listByService.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { name: 'backend-key-id', displayName: 'backend-key' }
+          yield { name: 'tenant-id' }
+        }
+      })
+
+      const client = new AzureApimClient(mockConfig)
+
+      expect(await client.listNamedValues()).toEqual([
+        'backend-key',
+        'tenant-id'
+      ])
+    })
+  })
+
+  describe('updateBackend', () => {
+    it('should create or update a backend with the http protocol by default', async () => {
+      mockClient.backend.createOrUpdate.mockResolvedValue({})
+      const circuitBreaker = {
+        rules: [
+          {
+            name: 'trip',
+            failureCondition: { count: 3, interval: 'PT1M' },
+            tripDuration: 'PT1M'
+          }
+        ]
+      }
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateBackend({
+        backendId: 'orders',
+        url: 'https://orders.contoso.com',
+        circuitBreaker
+      })
+
+      expect(result).toEqual({ backendId: 'orders', updated: true })
+      expect(mockClient.backend.createOrUpdate).toHaveBeenCalledWith(
+        'test-rg',
+        'test-apim',
+        'orders',
+        {
+          url: 'https://orders.contoso.com',
+          protocol: 'http',
+          description: undefined,
+          credentials: undefined,
+          circuitBreaker
+        }
+      )
+    })
+
+    it('should return the Azure error message on failure', async () => {
+      const azureError: any = new Error('outer')
+      azureError.response = { data: { message: 'Invalid url' } }
+      mockClient.backend.createOrUpdate.mockRejectedValue(azureError)
+
+      const client = new AzureApimClient(mockConfig)
+      const result = await client.updateBackend({
+        backendId: 'orders',
+        url: 'orders'
+      })
+
+      expect(result).toEqual({
+        backendId: 'orders',
+        updated: false,
+        error: 'Invalid url'
+      })
+    })
+  })
+
+  describe('listBackends', () => {
+    it('should list backend IDs', async () => {
+      mockClient.backend.listByService.mockReturnValue({
+        [Symbol.asyncIterator]: async function* () {
+          yield { name: 'orders' }
+          yield { name: 'billing' }
+        }
+      })
+
+      const client = new AzureApimClient(mockConfig)
+
+      expect(await client.listBackends()).toEqual(['orders', 'billing'])
+    })
+  })
+
   describe('list methods error handling', () => {
     it('listApis should return [] on error', async () => {
       mockClient.api.listByService.mockImplementation(() => {
@@ -378,6 +968,35 @@ describe('AzureApimClient', () => {
       expect(apis).toEqual([])
     })
 
+    it('listProducts should return [] on error', async () => {
+      mockClient.product.listByService.mockImplementation(() => {
+        throw new Error('boom')
+      })
+      const client = new AzureApimClient(mockConfig)
+      const products = await client.listProducts()
+      expect(products).toEqual([])
+    })
+
+    it('listNamedValues should throw on error', async () => {
+      mockClient.namedValue.listByService.mockImplementation(() => {
+        throw new Error('boom')
+      })
+      const client = new AzureApimClient(mockConfig)
+      await expect(client.listNamedValues()).rejects.toThrow(
+        'Failed to list named values: boom'
+      )
+    })
+
+    it('listBackends should throw on error', async () => {
+      mockClient.backend.listByService.mockImplementation(() => {
+        throw new Error('boom')
+      })
+      const client = new AzureApimClient(mockConfig)
+      await expect(client.listBackends()).rejects.toThrow(
+        'Failed to list backends: boom'
+      )
+    })
+
     it('listOperations should return [] on error', async () => {
       mockClient.apiOperation.listByApi.mockImplementation(() => {
         throw new Error('boom')
@@ -0,0 +1,205 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import type { PolicyFile } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  error: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const {
+  extractBackendReferences,
+  validateBackendReferences,
+  resolveBackends,
+  deployBackends
+} = await import('../src/backends.js')
+
+describe('backends', () => {
+  let mockClient: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockClient = {
+      listBackends: jest
+        .fn<() => Promise<string[]>>()
+        .mockResolvedValue(['orders']),
+      updateBackend: jest.fn<(backend: any) => Promise<any>>()
+    }
+  })
+
+  describe('extractBackendReferences', () => {
+    it('should return each backend-id with its line and column', () => {
+      expect(
+        extractBackendReferences(
+          '<policies>\n  <inbound>\n    <set-backend-service backend-id="orders" />\n    <set-backend-service id="x" backend-id=\'billing\' />\n  </inbound>\n</policies>'
+        )
+      ).toEqual([
+        { backendId: 'orders', line: 3, column: 26 },
+        { backendId: 'billing', line: 4, column: 33 }
+      ])
+    })
+
+    it('should find backend-id attributes on a later line', () => {
+      expect(
+        extractBackendReferences(
+          '<policies>\n  <inbound>\n    <set-backend-service\n      backend-id="orders" />\n  </inbound>\n</policies>'
+        )
+      ).toEqual([{ backendId: 'orders', line: 4, column: 7 }])
+    })
+
+    it('should ignore commented-out elements', () => {
+      expect(
+        extractBackendReferences(
+          '<policies>\n  <inbound>\n    <!-- <set-backend-service backend-id="old-backend" /> -->\n  </inbound>\n</policies>'
+        )
+      ).toEqual([])
+    })
+
+    it('should skip base-url and policy expression backends', () => {
+      expect(
+        extractBackendReferences(
+          '<policies>\n  <set-backend-service base-url="https://x" />\n  <set-backend-service backend-id="@(context.Variables.GetValueOrDefault<string>(&quot;b&quot;))" />\n</policies>'
+        )
+      ).toEqual([])
+    })
+  })
+
+  describe('validateBackendReferences', () => {
+    const policy: PolicyFile = {
+      filePath: '/test/api1/api.xml',
+      apiId: 'api1',
+      scope: 'api',
+      content:
+        '<policies>\n  <inbound>\n    <set-backend-service backend-id="orders" />\n    <set-backend-service backend-id="billing" />\n  </inbound>\n</policies>'
+    }
+
+    it('should report unknown backends per file and line', async () => {
+      const result = await validateBackendReferences(mockClient, [policy])
+
+      expect(result).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledTimes(1)
+      expect(mockCore.error).toHaveBeenCalledWith(
+        "Unknown backend 'billing' in /test/api1/api.xml (line 4, column 26)",
+        { file: '/test/api1/api.xml', startLine: 4, startColumn: 26 }
+      )
+    })
+
+    it('should accept backends declared in the manifest', async () => {
+      const result = await validateBackendReferences(
+        mockClient,
+        [policy],
+        ['billing']
+      )
+
+      expect(result).toBe(true)
+    })
+
+    it('should compare backend IDs case-insensitively', async () => {
+      mockClient.listBackends.mockResolvedValue(['Orders', 'billing'])
+
+      const result = await validateBackendReferences(mockClient, [
+        {
+          ...policy,
+          content: policy.content.replace('"billing"', '"Billing"')
+        }
+      ])
+
+      expect(result).toBe(true)
+      expect(mockCore.error).not.toHaveBeenCalled()
+    })
+
+    it('should fail when backends cannot be listed', async () => {
+      mockClient.listBackends.mockRejectedValue(
+        new Error('Failed to list backends: boom')
+      )
+
+      await expect(
+        validateBackendReferences(mockClient, [policy])
+      ).rejects.toThrow('Failed to list backends: boom')
+    })
+
+    it('should not list backends when nothing is referenced', async () => {
+      const result = await validateBackendReferences(mockClient, [
+        { ...policy, content: '<policies />' }
+      ])
+
+      expect(result).toBe(true)
+      expect(mockClient.listBackends).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolveBackends', () => {
+    it('should resolve backends with their settings', () => {
+      const circuitBreaker = {
+        rules: [
+          {
+            name: 'trip-on-5xx',
+            failureCondition: {
+              count: 3,
+              interval: 'PT1M',
+              statusCodeRanges: [{ min: 500, max: 599 }]
+            },
+            tripDuration: 'PT1M'
+          }
+        ]
+      }
+
+      expect(
+        resolveBackends({
+          orders: {
+            url: 'https://orders.contoso.com',
+            credentials: { header: { 'x-key': ['{{orders-key}}'] } },
+            circuitBreaker
+          }
+        })
+      ).toEqual([
+        {
+          backendId: 'orders',
+          url: 'https://orders.contoso.com',
+          credentials: { header: { 'x-key': ['{{orders-key}}'] } },
+          circuitBreaker
+        }
+      ])
+    })
+
+    it('should throw for a missing url or unsupported protocol', () => {
+      expect(() => resolveBackends({ orders: {} as any })).toThrow(
+        'Backend orders must have a url'
+      )
+      expect(() =>
+        resolveBackends({
+          orders: { url: 'https://x', protocol: 'grpc' as any }
+        })
+      ).toThrow('Backend orders protocol must be http or soap')
+    })
+
+    it('should throw for keys that are not deployed', () => {
+      expect(() =>
+        resolveBackends({
+          orders: { url: 'https://x', tls: { validateCertificateChain: false } }
+        } as any)
+      ).toThrow(
+        'Backend orders has unsupported keys: tls (supported: url, protocol, description, credentials, circuitBreaker)'
+      )
+    })
+  })
+
+  describe('deployBackends', () => {
+    it('should update every backend and report failures', async () => {
+      mockClient.updateBackend
+        .mockResolvedValueOnce({ backendId: 'a', updated: false })
+        .mockResolvedValueOnce({ backendId: 'b', updated: true })
+      const backends = [
+        { backendId: 'a', url: 'https://a' },
+        { backendId: 'b', url: 'https://b' }
+      ]
+
+      expect(await deployBackends(mockClient, backends)).toBe(false)
+      expect(mockClient.updateBackend).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { createUnifiedDiff } from '../src/diff.js'
+
+describe('diff', () => {
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string for identical texts', () => {
+      expect(createUnifiedDiff('a\nb', 'a\nb', 'old', 'new')).toBe('')
+    })
+
+    it('should create a hunk with context lines', () => {
+      const oldText = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n')
+      const newText = ['1', '2', '3', '4', 'five', '6', '7', '8'].join('\n')
+
+      expect(createUnifiedDiff(oldText, newText, 'live', 'repo')).toBe(
+        [
+          '--- live',
+          '+++ repo',
+          '@@ -2,7 +2,7 @@',
+          ' 2',
+          ' 3',
+          ' 4',
+          '-5',
+          '+five',
+          ' 6',
+          ' 7',
+          ' 8'
+        ].join('\n')
+      )
+    })
+
+    it('should split distant changes into separate hunks', () => {
+      const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+      const newLines = [...oldLines]
+      newLines[0] = 'first'
+      newLines[19] = 'last'
+
+      const diff = createUnifiedDiff(
+        oldLines.join('\n'),
+        newLines.join('\n'),
+        'a',
+        'b',
+        1
+      )
+
+      expect(diff.split('\n').filter((line) => line.startsWith('@@'))).toEqual([
+        '@@ -1,2 +1,2 @@',
+        '@@ -19,2 +19,2 @@'
+      ])
+    })
+
+    it('should describe additions to an empty text', () => {
+      expect(createUnifiedDiff('', 'a\nb', 'live', 'repo')).toBe(
+        ['--- live', '+++ repo', '@@ -0,0 +1,2 @@', '+a', '+b'].join('\n')
+      )
+    })
+  })
+})
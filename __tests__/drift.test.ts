@@ -0,0 +1,187 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import * as path from 'path'
+import type { PolicyFile } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  warning: jest.fn(),
+  startGroup: jest.fn(),
+  endGroup: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const { detectDrift, reportDrift } = await import('../src/drift.js')
+
+describe('drift', () => {
+  const apiPolicy: PolicyFile = {
+    filePath: path.resolve('policies/users-api/api.xml'),
+    apiId: 'users-api',
+    scope: 'api',
+    content: '<policies><inbound><base /></inbound></policies>'
+  }
+  const operationPolicy: PolicyFile = {
+    filePath: path.resolve('policies/users-api/operations/get-user.xml'),
+    apiId: 'users-api',
+    operationId: 'get-user',
+    scope: 'operation',
+    content: '<policies><inbound><base /></inbound></policies>'
+  }
+
+  let mockClient: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockClient = {
+      listApis: jest
+        .fn<() => Promise<string[]>>()
+        .mockResolvedValue(['users-api']),
+      listOperations: jest
+        .fn<(apiId: string) => Promise<string[]>>()
+        .mockResolvedValue(['get-user']),
+      getApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        content: '<policies><inbound><base /></inbound></policies>'
+      }),
+      getOperationPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        content: '<policies><inbound><base /></inbound></policies>'
+      })
+    }
+  })
+
+  describe('detectDrift', () => {
+    it('should report no drift when live policies match the repository', async () => {
+      const drift = await detectDrift(mockClient, [apiPolicy, operationPolicy])
+
+      expect(drift).toEqual([])
+    })
+
+    it('should report policies that differ from their file', async () => {
+      mockClient.getApiPolicy.mockResolvedValue({
+        content: '<policies><inbound><base /><cors /></inbound></policies>'
+      })
+
+      const drift = await detectDrift(mockClient, [apiPolicy, operationPolicy])
+
+      expect(drift).toEqual([
+        expect.objectContaining({
+          kind: 'differs',
+          scope: 'api',
+          apiId: 'users-api',
+          filePath: 'policies/users-api/api.xml',
+          diff: expect.stringContaining('-    <cors />')
+        })
+      ])
+    })
+
+    it('should report live policies without a file', async () => {
+      const drift = await detectDrift(mockClient, [apiPolicy])
+
+      expect(drift).toEqual([
+        {
+          kind: 'live-only',
+          scope: 'operation',
+          apiId: 'users-api',
+          operationId: 'get-user'
+        }
+      ])
+    })
+
+    it('should not report APIs excluded from the environment', async () => {
+      mockClient.listApis.mockResolvedValue(['users-api', 'debug-api'])
+
+      const drift = await detectDrift(
+        mockClient,
+        [apiPolicy, operationPolicy],
+        ['debug-api']
+      )
+
+      expect(drift).toEqual([])
+      expect(mockClient.getApiPolicy).not.toHaveBeenCalledWith('debug-api')
+      expect(mockClient.listOperations).not.toHaveBeenCalledWith('debug-api')
+    })
+
+    it('should not report declared policies whose file failed to read', async () => {
+      const drift = await detectDrift(
+        mockClient,
+        [apiPolicy],
+        [],
+        ['users-api', 'users-api/get-user']
+      )
+
+      expect(drift).toEqual([])
+    })
+
+    it('should not report APIs and operations without a live policy', async () => {
+      mockClient.getApiPolicy.mockResolvedValue(null)
+      mockClient.getOperationPolicy.mockResolvedValue(null)
+
+      const drift = await detectDrift(mockClient, [])
+
+      expect(drift).toEqual([])
+      expect(mockClient.getApiPolicy).toHaveBeenCalledWith('users-api')
+      expect(mockClient.getOperationPolicy).toHaveBeenCalledWith(
+        'users-api',
+        'get-user'
+      )
+    })
+
+    it('should report files whose target is missing or not deployed', async () => {
+      mockClient.listOperations.mockResolvedValue([])
+      mockClient.getApiPolicy.mockResolvedValue(null)
+
+      const drift = await detectDrift(mockClient, [apiPolicy, operationPolicy])
+
+      expect(drift).toEqual([
+        expect.objectContaining({
+          kind: 'repo-only',
+          scope: 'api',
+          filePath: 'policies/users-api/api.xml'
+        }),
+        expect.objectContaining({
+          kind: 'missing-target',
+          scope: 'operation',
+          operationId: 'get-user',
+          reason: "Operation 'get-user' not found in API 'users-api'"
+        })
+      ])
+    })
+  })
+
+  describe('reportDrift', () => {
+    it('should warn per drifted policy and summarize the drift', () => {
+      reportDrift([
+        {
+          kind: 'differs',
+          scope: 'api',
+          apiId: 'users-api',
+          filePath: 'policies/users-api/api.xml',
+          diff: '--- a\n+++ b'
+        },
+        {
+          kind: 'live-only',
+          scope: 'operation',
+          apiId: 'users-api',
+          operationId: 'get-user'
+        }
+      ])
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        '[differs] api policy users-api: live policy differs from policies/users-api/api.xml'
+      )
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        '[live-only] operation policy users-api/get-user: live policy has no file in the repository'
+      )
+      expect(mockCore.startGroup).toHaveBeenCalledWith(
+        'Diff for api policy users-api'
+      )
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Drift: 1 differ, 1 live only, 0 repo only, 0 missing target'
+      )
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { jest } from '@jest/globals'
+import type { ApimConfig, PolicyManifest } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn(),
+  warning: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const { selectEnvironment, applyEnvironmentTarget, applyEnvironment } =
+  await import('../src/environments.js')
+
+describe('environments', () => {
+  const manifest: PolicyManifest = {
+    globalPolicyPath: 'policies/global.xml',
+    products: { starter: 'policies/products/starter.xml' },
+    policies: {
+      'users-api': {
+        apiPolicyPath: 'policies/users-api/api.xml',
+        operations: { 'get-users': 'policies/users-api/get-users.xml' }
+      },
+      'debug-api': { apiPolicyPath: 'policies/debug-api/api.xml' }
+    },
+    environments: {
+      dev: {},
+      prod: {
+        subscriptionId: 'prod-subscription',
+        serviceName: 'prod-apim',
+        policyPaths: {
+          global: 'policies/global.prod.xml',
+          'products/starter': 'policies/products/starter.prod.xml',
+          'users-api/get-users': 'policies/users-api/get-users.prod.xml'
+        },
+        excludeApis: ['debug-api']
+      }
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('selectEnvironment', () => {
+    it('should return the environment or throw for unknown names', () => {
+      expect(selectEnvironment(manifest, 'dev')).toEqual({})
+      expect(() => selectEnvironment(manifest, 'test')).toThrow(
+        "Environment 'test' is not defined in the policy manifest (available: dev, prod)"
+      )
+      expect(() => selectEnvironment({}, 'test')).toThrow('(available: none)')
+    })
+  })
+
+  describe('applyEnvironmentTarget', () => {
+    const config: ApimConfig = {
+      subscriptionId: 'input-subscription',
+      resourceGroupName: 'input-rg',
+      serviceName: '',
+      environment: 'prod'
+    }
+
+    it('should override the inputs with the environment target', () => {
+      expect(
+        applyEnvironmentTarget(config, 'prod', manifest.environments!.prod)
+      ).toEqual({
+        subscriptionId: 'prod-subscription',
+        resourceGroupName: 'input-rg',
+        serviceName: 'prod-apim',
+        environment: 'prod'
+      })
+      expect(mockCore.info).toHaveBeenCalledWith('  APIM Service: prod-apim')
+    })
+
+    it('should keep the inputs the environment does not override', () => {
+      expect(applyEnvironmentTarget(config, 'dev', {})).toEqual(config)
+      expect(mockCore.info).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('applyEnvironment', () => {
+    it('should swap policy paths and exclude APIs without changing the manifest', () => {
+      const applied = applyEnvironment(manifest, 'prod')
+
+      expect(applied.globalPolicyPath).toBe('policies/global.prod.xml')
+      expect(applied.products).toEqual({
+        starter: 'policies/products/starter.prod.xml'
+      })
+      expect(applied.policies).toEqual({
+        'users-api': {
+          apiPolicyPath: 'policies/users-api/api.xml',
+          operations: {
+            'get-users': 'policies/users-api/get-users.prod.xml'
+          }
+        }
+      })
+      expect(manifest.policies!['users-api'].operations!['get-users']).toBe(
+        'policies/users-api/get-users.xml'
+      )
+      expect(manifest.policies!['debug-api']).toBeDefined()
+    })
+
+    it('should throw when a policy path replaces an unknown target', () => {
+      expect(() =>
+        applyEnvironment(
+          {
+            ...manifest,
+            environments: {
+              test: { policyPaths: { 'orders-api': 'orders.xml' } }
+            }
+          },
+          'test'
+        )
+      ).toThrow(
+        'Environment test replaces the path of orders-api, which is not in the policy manifest'
+      )
+    })
+
+    it('should warn about excluded APIs that are not in the manifest', () => {
+      applyEnvironment(
+        {
+          ...manifest,
+          environments: { test: { excludeApis: ['orders-api'] } }
+        },
+        'test'
+      )
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Environment test excludes API orders-api, which is not in the policy manifest'
+      )
+    })
+  })
+})
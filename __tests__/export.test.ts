@@ -0,0 +1,150 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import * as path from 'path'
+
+// Mock external dependencies
+const mockCore = {
+  info: jest.fn()
+}
+
+const mockFs = {
+  mkdir: jest.fn<() => Promise<void>>(),
+  writeFile: jest.fn<() => Promise<void>>()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+jest.unstable_mockModule('fs/promises', () => mockFs)
+
+// Import after mocking
+const { exportPolicies, buildPolicyManifest, writePolicyManifest } =
+  await import('../src/export.js')
+
+describe('export', () => {
+  let mockClient: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockFs.mkdir.mockResolvedValue(undefined)
+    mockFs.writeFile.mockResolvedValue(undefined)
+
+    mockClient = {
+      listApis: jest
+        .fn<() => Promise<string[]>>()
+        .mockResolvedValue(['users-api', 'empty-api']),
+      listOperations: jest.fn(async (apiId: string) =>
+        apiId === 'users-api' ? ['get-users', 'list-users'] : []
+      ),
+      getApiPolicy: jest.fn(async (apiId: string) =>
+        apiId === 'users-api' ? { content: '<policies />', etag: 'a' } : null
+      ),
+      getOperationPolicy: jest.fn(async (apiId: string, operationId: string) =>
+        operationId === 'get-users'
+          ? { content: '<policies>\n</policies>\n', etag: 'b' }
+          : null
+      )
+    }
+  })
+
+  describe('exportPolicies', () => {
+    it('should write existing policies into the default structure', async () => {
+      const exported = await exportPolicies(mockClient, 'out')
+
+      const apiPath = path.join('out', 'policies', 'users-api', 'api.xml')
+      const operationPath = path.join(
+        'out',
+        'policies',
+        'users-api',
+        'operations',
+        'get-users.xml'
+      )
+      expect(exported).toEqual([
+        {
+          filePath: apiPath,
+          apiId: 'users-api',
+          scope: 'api',
+          content: '<policies />'
+        },
+        {
+          filePath: operationPath,
+          apiId: 'users-api',
+          operationId: 'get-users',
+          scope: 'operation',
+          content: '<policies>\n</policies>\n'
+        }
+      ])
+      expect(mockFs.writeFile).toHaveBeenCalledTimes(2)
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        apiPath,
+        '<policies />\n',
+        'utf-8'
+      )
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        operationPath,
+        '<policies>\n</policies>\n',
+        'utf-8'
+      )
+      expect(mockFs.mkdir).toHaveBeenCalledWith(path.dirname(operationPath), {
+        recursive: true
+      })
+    })
+  })
+
+  describe('buildPolicyManifest', () => {
+    it('should list exported policies with working directory relative paths', () => {
+      const manifest = buildPolicyManifest([
+        {
+          filePath: 'out/policies/users-api/api.xml',
+          apiId: 'users-api',
+          scope: 'api',
+          content: ''
+        },
+        {
+          filePath: 'out/policies/users-api/operations/get-users.xml',
+          apiId: 'users-api',
+          operationId: 'get-users',
+          scope: 'operation',
+          content: ''
+        },
+        {
+          filePath: path.resolve('policies/orders-api/operations/create.xml'),
+          apiId: 'orders-api',
+          operationId: 'create',
+          scope: 'operation',
+          content: ''
+        }
+      ])
+
+      expect(manifest).toEqual({
+        policies: {
+          'users-api': {
+            apiPolicyPath: 'out/policies/users-api/api.xml',
+            operations: {
+              'get-users': 'out/policies/users-api/operations/get-users.xml'
+            }
+          },
+          'orders-api': {
+            operations: {
+              create: 'policies/orders-api/operations/create.xml'
+            }
+          }
+        }
+      })
+    })
+  })
+
+  describe('writePolicyManifest', () => {
+    it('should write the manifest as YAML', async () => {
+      await writePolicyManifest('policy_manifest.yaml', {
+        policies: {
+          'users-api': { apiPolicyPath: 'policies/users-api/api.xml' }
+        } as any
+      })
+
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        'policy_manifest.yaml',
+        'policies:\n  users-api:\n    apiPolicyPath: policies/users-api/api.xml\n',
+        'utf-8'
+      )
+    })
+  })
+})
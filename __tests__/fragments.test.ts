@@ -0,0 +1,83 @@
+import type { PolicyFile } from '../src/types.js'
+import {
+  extractFragmentReferences,
+  orderPoliciesForDeployment
+} from '../src/fragments.js'
+
+describe('fragments', () => {
+  const fragment = (fragmentId: string, content: string): PolicyFile => ({
+    filePath: `/test/fragments/${fragmentId}.xml`,
+    fragmentId,
+    scope: 'fragment',
+    content
+  })
+  const include = (fragmentId: string): string =>
+    `<include-fragment fragment-id="${fragmentId}" />`
+
+  describe('extractFragmentReferences', () => {
+    it('should return each included fragment once in order', () => {
+      expect(
+        extractFragmentReferences(`<policies>
+  <inbound>
+    <include-fragment fragment-id="auth" />
+    <include-fragment
+      fragment-id='cors'/>
+    ${include('auth')}
+  </inbound>
+</policies>`)
+      ).toEqual(['auth', 'cors'])
+    })
+
+    it('should return an empty list when nothing is included', () => {
+      expect(extractFragmentReferences('<policies />')).toEqual([])
+    })
+
+    it('should ignore commented-out includes', () => {
+      expect(
+        extractFragmentReferences(
+          `<policies><!-- ${include('auth')} -->${include('cors')}</policies>`
+        )
+      ).toEqual(['cors'])
+    })
+  })
+
+  describe('orderPoliciesForDeployment', () => {
+    it('should deploy fragments before the fragments and policies including them', () => {
+      const api: PolicyFile = {
+        filePath: '/test/api1/api.xml',
+        apiId: 'api1',
+        scope: 'api',
+        content: `<policies>${include('auth')}</policies>`
+      }
+      const auth = fragment(
+        'auth',
+        `<fragment>${include('headers')}</fragment>`
+      )
+      const headers = fragment('headers', '<fragment />')
+      const external = fragment(
+        'cors',
+        `<fragment>${include('shared')}</fragment>`
+      )
+
+      expect(
+        orderPoliciesForDeployment([api, auth, headers, external])
+      ).toEqual([headers, auth, external, api])
+    })
+
+    it('should throw for circular fragment references', () => {
+      expect(() =>
+        orderPoliciesForDeployment([
+          fragment('a', `<fragment>${include('b')}</fragment>`),
+          fragment('b', `<fragment>${include('a')}</fragment>`)
+        ])
+      ).toThrow('Circular policy fragment references: a -> b -> a')
+    })
+
+    it('should not treat commented-out includes as references', () => {
+      const a = fragment('a', `<fragment>${include('b')}</fragment>`)
+      const b = fragment('b', `<fragment><!-- ${include('a')} --></fragment>`)
+
+      expect(orderPoliciesForDeployment([a, b])).toEqual([b, a])
+    })
+  })
+})
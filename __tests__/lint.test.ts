@@ -0,0 +1,209 @@
+import { jest } from '@jest/globals'
+import type { LintConfig, PolicyFile } from '../src/types.js'
+
+// Mock external dependencies
+const mockCore = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+}
+
+const mockFs = {
+  readFile: jest.fn<() => Promise<string>>()
+}
+
+const mockParseYaml = jest.fn<() => unknown>()
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+jest.unstable_mockModule('fs/promises', () => mockFs)
+jest.unstable_mockModule('yaml', () => ({ parse: mockParseYaml }))
+
+// Import after mocking
+const { loadLintConfig, lintPolicy, lintPolicies } = await import(
+  '../src/lint.js'
+)
+
+describe('lint', () => {
+  const apiPolicy: PolicyFile = {
+    filePath: '/test/public-api/api.xml',
+    apiId: 'public-api',
+    scope: 'api',
+    content: `<policies>
+  <inbound>
+    <base />
+  </inbound>
+  <outbound />
+</policies>`
+  }
+  const operationPolicy: PolicyFile = {
+    filePath: '/test/public-api/operations/op1.xml',
+    apiId: 'public-api',
+    operationId: 'op1',
+    scope: 'operation',
+    content: `<policies>
+  <inbound>
+    <base />
+    <choose>
+      <when condition="@(true)">
+        <set-backend-service base-url="https://example.com" />
+      </when>
+    </choose>
+  </inbound>
+</policies>`
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('loadLintConfig', () => {
+    it('should load the default config file', async () => {
+      const config = { rules: [{ rule: 'require-base', severity: 'warn' }] }
+      mockFs.readFile.mockResolvedValue('rules: []')
+      mockParseYaml.mockReturnValue(config)
+
+      await expect(loadLintConfig()).resolves.toEqual(config)
+      expect(mockFs.readFile).toHaveBeenCalledWith(
+        '.apim-policy-lint.yaml',
+        'utf-8'
+      )
+    })
+
+    it('should disable linting when the default config file is missing', async () => {
+      const notFound: NodeJS.ErrnoException = new Error('ENOENT')
+      notFound.code = 'ENOENT'
+      mockFs.readFile.mockRejectedValue(notFound)
+
+      await expect(loadLintConfig()).resolves.toBeNull()
+    })
+
+    it('should throw when a configured config file is missing', async () => {
+      const notFound: NodeJS.ErrnoException = new Error('ENOENT: no such file')
+      notFound.code = 'ENOENT'
+      mockFs.readFile.mockRejectedValue(notFound)
+
+      await expect(loadLintConfig('lint.yaml')).rejects.toThrow(
+        'Failed to read lint config: ENOENT: no such file'
+      )
+    })
+
+    it.each([
+      [{}, 'Invalid lint config format: missing rules list'],
+      [
+        { rules: [{ rule: 'unknown', severity: 'error' }] },
+        'Lint rule 1: rule must be one of require-base, forbidden-elements, required-elements'
+      ],
+      [
+        { rules: [{ rule: 'require-base', severity: 'fatal' }] },
+        'Lint rule 1 (require-base): severity must be one of error, warn, off'
+      ],
+      [
+        {
+          rules: [{ rule: 'require-base', severity: 'error', scopes: ['x'] }]
+        },
+        "Lint rule 1 (require-base): unknown scope 'x'"
+      ],
+      [
+        { rules: [{ rule: 'required-elements', severity: 'error' }] },
+        'Lint rule 1 (required-elements): elements must not be empty'
+      ]
+    ])('should reject invalid config %j', async (config, message) => {
+      mockFs.readFile.mockResolvedValue('content')
+      mockParseYaml.mockReturnValue(config)
+
+      await expect(loadLintConfig()).rejects.toThrow(message)
+    })
+  })
+
+  describe('lintPolicy', () => {
+    it('should report sections without <base />', () => {
+      const config: LintConfig = {
+        rules: [{ rule: 'require-base', severity: 'error' }]
+      }
+
+      expect(lintPolicy(apiPolicy, config)).toEqual([
+        {
+          rule: 'require-base',
+          severity: 'error',
+          message: 'Section <outbound> does not contain <base />',
+          line: 5,
+          column: 3
+        }
+      ])
+    })
+
+    it('should report forbidden elements only in the configured scopes', () => {
+      const config: LintConfig = {
+        rules: [
+          {
+            rule: 'forbidden-elements',
+            severity: 'error',
+            scopes: ['operation'],
+            elements: ['set-backend-service']
+          }
+        ]
+      }
+
+      expect(lintPolicy(operationPolicy, config)).toEqual([
+        {
+          rule: 'forbidden-elements',
+          severity: 'error',
+          message: '<set-backend-service> is not allowed',
+          line: 6,
+          column: 9
+        }
+      ])
+      expect(lintPolicy({ ...operationPolicy, scope: 'api' }, config)).toEqual(
+        []
+      )
+    })
+
+    it('should report required elements only for the configured APIs', () => {
+      const config: LintConfig = {
+        rules: [
+          {
+            rule: 'required-elements',
+            severity: 'warn',
+            apis: ['public-api'],
+            elements: ['rate-limit-by-key']
+          }
+        ]
+      }
+
+      expect(lintPolicy(apiPolicy, config)).toMatchObject([
+        { message: '<rate-limit-by-key> is required', line: 1, column: 1 }
+      ])
+      expect(
+        lintPolicy({ ...apiPolicy, apiId: 'internal-api' }, config)
+      ).toEqual([])
+    })
+
+    it('should skip rules that are off', () => {
+      const config: LintConfig = {
+        rules: [{ rule: 'require-base', severity: 'off' }]
+      }
+
+      expect(lintPolicy(apiPolicy, config)).toEqual([])
+    })
+  })
+
+  describe('lintPolicies', () => {
+    it('should fail only for error severity and annotate the file', () => {
+      const warnOnly: LintConfig = {
+        rules: [{ rule: 'require-base', severity: 'warn' }]
+      }
+      expect(lintPolicies([apiPolicy], warnOnly)).toBe(true)
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        '[require-base] /test/public-api/api.xml (line 5, column 3): Section <outbound> does not contain <base />',
+        { file: '/test/public-api/api.xml', startLine: 5, startColumn: 3 }
+      )
+
+      const errors: LintConfig = {
+        rules: [{ rule: 'require-base', severity: 'error' }]
+      }
+      expect(lintPolicies([apiPolicy], errors)).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -10,6 +10,29 @@ describe('main.ts', () => {
   let mockAzureApimClient: any
   let mockDiscoverPolicies: any
   let mockValidatePolicies: any
+  let mockValidatePolicyStructure: any
+  let mockLoadLintConfig: any
+  let mockLoadTemplateValues: any
+  let mockValidateNamedValueReferences: any
+  let mockLoadPolicyManifest: any
+  let mockDeployNamedValues: any
+  let mockValidateBackendReferences: any
+  let mockDeployBackends: any
+  let mockPlanPolicyChanges: any
+  let mockReportPolicyPlan: any
+  let mockWritePlanSummary: any
+  let mockWriteDeploymentSummary: any
+  let mockSetResultOutputs: any
+  let mockExportPolicies: any
+  let mockWritePolicyManifest: any
+  let mockDetectDrift: any
+  let mockWriteDriftSummary: any
+  let mockFindPrunablePolicies: any
+  let mockPrunePolicies: any
+  let mockWriteSnapshotFile: any
+  let mockRollbackPolicies: any
+  let mockLoadSnapshot: any
+  let mockRestoreSnapshot: any
   let run: any
 
   beforeAll(async () => {
@@ -27,12 +50,43 @@ describe('main.ts', () => {
     mockAzureApimClient = jest.fn()
     mockDiscoverPolicies = jest.fn()
     mockValidatePolicies = jest.fn()
+    mockValidatePolicyStructure = jest.fn()
+    mockLoadLintConfig = jest.fn()
+    mockLoadTemplateValues = jest.fn()
+    mockValidateNamedValueReferences = jest.fn()
+    mockLoadPolicyManifest = jest.fn()
+    mockDeployNamedValues = jest.fn()
+    mockValidateBackendReferences = jest.fn()
+    mockDeployBackends = jest.fn()
+    mockPlanPolicyChanges = jest.fn()
+    mockReportPolicyPlan = jest.fn()
+    mockWritePlanSummary = jest.fn()
+    mockWriteDeploymentSummary = jest.fn()
+    mockSetResultOutputs = jest.fn()
+    mockExportPolicies = jest.fn()
+    mockWritePolicyManifest = jest.fn()
+    mockDetectDrift = jest.fn()
+    mockWriteDriftSummary = jest.fn()
+    mockFindPrunablePolicies = jest.fn()
+    mockPrunePolicies = jest.fn()
+    mockWriteSnapshotFile = jest.fn()
+    mockRollbackPolicies = jest.fn()
+    mockLoadSnapshot = jest.fn()
+    mockRestoreSnapshot = jest.fn()
 
     // Set up mocks before importing
     jest.unstable_mockModule('@actions/core', () => mockCore)
 
     jest.unstable_mockModule('../src/utils.js', () => ({
-      parseInputs: mockParseInputs
+      parseInputs: mockParseInputs,
+      formatPolicyTarget: (policy: any) =>
+        policy.fragmentId
+          ? `fragments/${policy.fragmentId}`
+          : policy.productId
+            ? `products/${policy.productId}`
+            : policy.operationId
+              ? `${policy.apiId}/${policy.operationId}`
+              : policy.apiId || 'global'
     }))
 
     jest.unstable_mockModule('../src/azure-client.js', () => ({
@@ -41,18 +95,141 @@ describe('main.ts', () => {
 
     jest.unstable_mockModule('../src/policy-discovery.js', () => ({
       discoverPolicies: mockDiscoverPolicies,
+      listManifestPolicyTargets: (manifest: any, excludeApis: string[] = []) =>
+        Object.keys(manifest.policies || {}).filter(
+          (apiId) => !excludeApis.includes(apiId)
+        ),
+      loadPolicyManifest: mockLoadPolicyManifest,
       validatePolicies: mockValidatePolicies
     }))
     jest.unstable_mockModule('../src/utils.js', () => ({
-      parseInputs: mockParseInputs
+      parseInputs: mockParseInputs,
+      formatPolicyTarget: (policy: any) =>
+        policy.fragmentId
+          ? `fragments/${policy.fragmentId}`
+          : policy.productId
+            ? `products/${policy.productId}`
+            : policy.operationId
+              ? `${policy.apiId}/${policy.operationId}`
+              : policy.apiId || 'global'
     }))
     jest.unstable_mockModule('../src/azure-client.js', () => ({
       AzureApimClient: mockAzureApimClient
     }))
     jest.unstable_mockModule('../src/policy-discovery.js', () => ({
       discoverPolicies: mockDiscoverPolicies,
+      listManifestPolicyTargets: (manifest: any, excludeApis: string[] = []) =>
+        Object.keys(manifest.policies || {}).filter(
+          (apiId) => !excludeApis.includes(apiId)
+        ),
+      loadPolicyManifest: mockLoadPolicyManifest,
       validatePolicies: mockValidatePolicies
     }))
+    jest.unstable_mockModule('../src/policy-structure.js', () => ({
+      validatePolicyStructure: mockValidatePolicyStructure,
+      validateBaseInheritance: () => true
+    }))
+    jest.unstable_mockModule('../src/lint.js', () => ({
+      loadLintConfig: mockLoadLintConfig
+    }))
+    jest.unstable_mockModule('../src/templating.js', () => ({
+      loadTemplateValues: mockLoadTemplateValues,
+      toTemplateValues: (values: Record<string, any>) =>
+        Object.fromEntries(
+          Object.entries(values).map(([name, value]) => [name, String(value)])
+        )
+    }))
+    jest.unstable_mockModule('../src/environments.js', () => ({
+      selectEnvironment: (manifest: any, name: string) =>
+        manifest.environments[name],
+      applyEnvironmentTarget: (
+        config: any,
+        name: string,
+        environment: any
+      ) => ({
+        ...config,
+        serviceName: environment.serviceName
+      })
+    }))
+    jest.unstable_mockModule('../src/named-values.js', () => ({
+      validateNamedValueReferences: mockValidateNamedValueReferences,
+      resolveNamedValues: (entries: Record<string, any>) =>
+        Object.entries(entries).map(([namedValueId, entry]) => ({
+          namedValueId,
+          displayName: entry.displayName || namedValueId,
+          value: entry.value,
+          secret: false
+        })),
+      deployNamedValues: mockDeployNamedValues
+    }))
+    jest.unstable_mockModule('../src/backends.js', () => ({
+      validateBackendReferences: mockValidateBackendReferences,
+      resolveBackends: (entries: Record<string, any>) =>
+        Object.entries(entries).map(([backendId, entry]) => ({
+          backendId,
+          ...entry
+        })),
+      deployBackends: mockDeployBackends
+    }))
+    jest.unstable_mockModule('../src/plan.js', () => ({
+      planPolicyChanges: mockPlanPolicyChanges,
+      reportPolicyPlan: mockReportPolicyPlan
+    }))
+    jest.unstable_mockModule('../src/summary.js', () => ({
+      writePlanSummary: mockWritePlanSummary,
+      writeDeploymentSummary: mockWriteDeploymentSummary,
+      writeDriftSummary: mockWriteDriftSummary
+    }))
+    jest.unstable_mockModule('../src/drift.js', () => ({
+      detectDrift: mockDetectDrift,
+      reportDrift: jest.fn()
+    }))
+    jest.unstable_mockModule('../src/prune.js', () => ({
+      findPrunablePolicies: mockFindPrunablePolicies,
+      prunePolicies: mockPrunePolicies
+    }))
+    jest.unstable_mockModule('../src/snapshot.js', () => ({
+      createSnapshotEntries: (plan: any[]) =>
+        plan.map(({ policy, live }) => ({
+          scope: policy.scope,
+          apiId: policy.apiId,
+          content: live ? live.content : null
+        })),
+      writeSnapshotFile: mockWriteSnapshotFile,
+      rollbackPolicies: mockRollbackPolicies
+    }))
+    jest.unstable_mockModule('../src/restore.js', () => ({
+      loadSnapshot: mockLoadSnapshot,
+      restoreSnapshot: mockRestoreSnapshot,
+      selectSnapshotPolicies: (entries: any[], target: string) =>
+        entries.filter((entry) => !entry.target || entry.target === target)
+    }))
+    jest.unstable_mockModule('../src/results.js', () => ({
+      countResults: (results: any[]) => {
+        const counts: any = {
+          updated: 0,
+          unchanged: 0,
+          failed: 0,
+          skipped: 0,
+          conflict: 0
+        }
+        for (const result of results) {
+          counts[result.status]++
+        }
+        return counts
+      },
+      setResultOutputs: mockSetResultOutputs
+    }))
+
+    jest.unstable_mockModule('../src/export.js', () => ({
+      exportPolicies: mockExportPolicies,
+      buildPolicyManifest: (exported: any[]) => ({
+        policies: Object.fromEntries(
+          exported.map((policy) => [policy.apiId, {}])
+        )
+      }),
+      writePolicyManifest: mockWritePolicyManifest
+    }))
 
     // Import the module being tested
     const mainModule = await import('../src/main.js')
@@ -61,6 +238,22 @@ describe('main.ts', () => {
 
   beforeEach(() => {
     jest.clearAllMocks()
+    mockValidatePolicyStructure.mockReturnValue(true)
+    mockLoadLintConfig.mockResolvedValue(null)
+    mockLoadTemplateValues.mockResolvedValue({})
+    mockValidateNamedValueReferences.mockResolvedValue(true)
+    mockLoadPolicyManifest.mockResolvedValue(null)
+    mockDeployNamedValues.mockResolvedValue(true)
+    mockValidateBackendReferences.mockResolvedValue(true)
+    mockDeployBackends.mockResolvedValue(true)
+    mockFindPrunablePolicies.mockResolvedValue([])
+    mockWriteSnapshotFile.mockResolvedValue('/tmp/apim-policy-snapshot.json')
+
+    // Plan every discovered policy as an update unless a test overrides it
+    mockPlanPolicyChanges.mockImplementation(
+      async (_client: unknown, policies: any[]) =>
+        policies.map((policy) => ({ policy, action: 'update' }))
+    )
   })
 
   it('should run successfully with valid configuration and policies', async () => {
@@ -119,18 +312,25 @@ describe('main.ts', () => {
     expect(mockParseInputs).toHaveBeenCalled()
     expect(mockAzureApimClient).toHaveBeenCalledWith(mockConfig)
     expect(mockClient.testConnection).toHaveBeenCalled()
-    expect(mockDiscoverPolicies).toHaveBeenCalledWith(undefined)
-    expect(mockValidatePolicies).toHaveBeenCalledWith(mockPolicies)
+    expect(mockDiscoverPolicies).toHaveBeenCalledWith(
+      undefined,
+      '.',
+      {},
+      undefined
+    )
+    expect(mockValidatePolicies).toHaveBeenCalledWith(mockPolicies, null)
 
     // Check policy update calls
     expect(mockClient.updateApiPolicy).toHaveBeenCalledWith(
       'api1',
-      '<policies></policies>'
+      '<policies></policies>',
+      undefined
     )
     expect(mockClient.updateOperationPolicy).toHaveBeenCalledWith(
       'api1',
       'get-users',
-      '<policies></policies>'
+      '<policies></policies>',
+      undefined
     )
 
     // Should set ETag output (from operation policy which is last)
@@ -178,7 +378,8 @@ describe('main.ts', () => {
 
     expect(mockClient.updateApiPolicy).toHaveBeenCalledWith(
       'api1',
-      '<policies></policies>'
+      '<policies></policies>',
+      undefined
     )
 
     // Should set ETag output
@@ -239,7 +440,126 @@ describe('main.ts', () => {
 
     await run()
 
-    expect(mockDiscoverPolicies).toHaveBeenCalledWith('/path/manifest.yaml')
+    expect(mockDiscoverPolicies).toHaveBeenCalledWith(
+      '/path/manifest.yaml',
+      '.',
+      {},
+      undefined
+    )
+  })
+
+  it('should discover policies with the template values file', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim',
+      templateValuesPath: 'values/dev.yaml'
+    })
+    mockAzureApimClient.mockImplementation(() => ({
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([])
+    }))
+    mockLoadTemplateValues.mockResolvedValue({ RATE_LIMIT: '100' })
+    mockDiscoverPolicies.mockResolvedValue([])
+
+    await run()
+
+    expect(mockLoadTemplateValues).toHaveBeenCalledWith('values/dev.yaml')
+    expect(mockDiscoverPolicies).toHaveBeenCalledWith(
+      undefined,
+      '.',
+      { RATE_LIMIT: '100' },
+      undefined
+    )
+  })
+
+  it('should deploy to the APIM service of the selected environment', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: '',
+      policyManifestPath: 'manifest.yaml',
+      templateValuesPath: 'values.yaml',
+      environment: 'prod'
+    })
+    mockLoadPolicyManifest.mockResolvedValue({
+      environments: {
+        prod: {
+          serviceName: 'prod-apim',
+          templateValues: { RATE_LIMIT: 500, REGION: 'westeurope' }
+        }
+      }
+    })
+    mockAzureApimClient.mockImplementation(() => ({
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      updateServicePolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'global',
+        updated: true,
+        status: 'updated'
+      })
+    }))
+    mockLoadTemplateValues.mockResolvedValue({ RATE_LIMIT: '100', TIER: 'x' })
+    mockDiscoverPolicies.mockResolvedValue([
+      { filePath: '/test/global.xml', scope: 'global', content: '<policies />' }
+    ])
+    mockValidatePolicies.mockReturnValue(true)
+
+    await run()
+
+    expect(mockAzureApimClient).toHaveBeenCalledWith(
+      expect.objectContaining({ serviceName: 'prod-apim' })
+    )
+    expect(mockDiscoverPolicies).toHaveBeenCalledWith(
+      'manifest.yaml',
+      '.',
+      { RATE_LIMIT: '500', REGION: 'westeurope', TIER: 'x' },
+      'prod'
+    )
+  })
+
+  it('should not deploy an environment with its own service to the manifest targets', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: '',
+      policyManifestPath: 'manifest.yaml',
+      environment: 'dev'
+    })
+    mockLoadPolicyManifest.mockResolvedValue({
+      targets: [
+        { serviceName: 'apim-prod-weu' },
+        { serviceName: 'apim-prod-eus' }
+      ],
+      environments: {
+        dev: { serviceName: 'apim-dev', resourceGroupName: 'rg-dev' }
+      }
+    })
+
+    await run()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      "Environment dev sets its own APIM service but the policy manifest lists targets; list the environment's services in its own targets"
+    )
+    expect(mockAzureApimClient).not.toHaveBeenCalled()
+    expect(mockDiscoverPolicies).not.toHaveBeenCalled()
+  })
+
+  it('should fail when the manifest of the environment cannot be loaded', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim',
+      policyManifestPath: 'manifest.yaml',
+      environment: 'prod'
+    })
+
+    await run()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to load policy manifest'
+    )
+    expect(mockAzureApimClient).not.toHaveBeenCalled()
   })
 
   it('should continue processing when an update returns error', async () => {
@@ -296,12 +616,12 @@ describe('main.ts', () => {
     expect(mockCore.setOutput).toHaveBeenCalledWith('etag', 'e2')
   })
 
-  it('should fail when policy validation fails', async () => {
-    // Mock successful parsing and connection
+  it('should only report the plan in dry run mode', async () => {
     const mockConfig = {
       subscriptionId: 'test-subscription',
       resourceGroupName: 'test-rg',
-      serviceName: 'test-apim'
+      serviceName: 'test-apim',
+      dryRun: true
     }
     mockParseInputs.mockReturnValue(mockConfig)
 
@@ -310,22 +630,37 @@ describe('main.ts', () => {
       listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue(['api1']),
       listOperations: jest
         .fn<(apiId: string) => Promise<string[]>>()
-        .mockResolvedValue([])
+        .mockResolvedValue([]),
+      updateApiPolicy: jest.fn<() => Promise<any>>(),
+      updateOperationPolicy: jest.fn<() => Promise<any>>()
     }
     mockAzureApimClient.mockImplementation(() => mockClient)
 
-    // Mock policy discovery with validation failure
-    const mockPolicies = [{ filePath: '/test/invalid.xml' }]
+    const mockPolicies = [
+      {
+        filePath: '/test/api1.xml',
+        apiId: 'api1',
+        scope: 'api',
+        content: '<policies></policies>'
+      }
+    ]
+    const mockPlan = [{ policy: mockPolicies[0], action: 'create' }]
     mockDiscoverPolicies.mockResolvedValue(mockPolicies)
-    mockValidatePolicies.mockReturnValue(false)
+    mockValidatePolicies.mockReturnValue(true)
+    mockPlanPolicyChanges.mockResolvedValue(mockPlan)
 
     await run()
 
-    expect(mockCore.setFailed).toHaveBeenCalledWith('Policy validation failed')
+    expect(mockPlanPolicyChanges).toHaveBeenCalledWith(mockClient, mockPolicies)
+    expect(mockReportPolicyPlan).toHaveBeenCalledWith(mockPlan)
+    expect(mockWritePlanSummary).toHaveBeenCalledWith(mockPlan, undefined)
+    expect(mockClient.updateApiPolicy).not.toHaveBeenCalled()
+    expect(mockClient.updateOperationPolicy).not.toHaveBeenCalled()
+    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
   })
 
-  it('should fail when Azure connection test fails', async () => {
-    // Mock successful parsing
+  it('should skip unchanged policies', async () => {
     const mockConfig = {
       subscriptionId: 'test-subscription',
       resourceGroupName: 'test-rg',
@@ -333,32 +668,180 @@ describe('main.ts', () => {
     }
     mockParseInputs.mockReturnValue(mockConfig)
 
-    // Mock failed Azure client
     const mockClient = {
-      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(false)
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue(['api1']),
+      listOperations: jest
+        .fn<(apiId: string) => Promise<string[]>>()
+        .mockResolvedValue(['op1']),
+      updateApiPolicy: jest.fn<() => Promise<any>>(),
+      updateOperationPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        apiId: 'api1',
+        operationId: 'op1',
+        updated: true,
+        status: 'updated',
+        etag: 'op-etag'
+      })
+    }
+    mockAzureApimClient.mockImplementation(() => mockClient)
+
+    const mockPolicies = [
+      {
+        filePath: '/test/api1.xml',
+        apiId: 'api1',
+        scope: 'api',
+        content: '<policies></policies>'
+      },
+      {
+        filePath: '/test/op1.xml',
+        apiId: 'api1',
+        operationId: 'op1',
+        scope: 'operation',
+        content: '<policies></policies>'
+      }
+    ]
+    mockDiscoverPolicies.mockResolvedValue(mockPolicies)
+    mockValidatePolicies.mockReturnValue(true)
+    mockPlanPolicyChanges.mockResolvedValue([
+      {
+        policy: mockPolicies[0],
+        action: 'unchanged',
+        live: { content: '<policies />', etag: 'api-etag' }
+      },
+      { policy: mockPolicies[1], action: 'update' }
+    ])
+
+    await run()
+
+    expect(mockClient.updateApiPolicy).not.toHaveBeenCalled()
+    expect(mockClient.updateOperationPolicy).toHaveBeenCalledWith(
+      'api1',
+      'op1',
+      '<policies></policies>',
+      undefined
+    )
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Skipping unchanged api policy: api1'
+    )
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Policy updates: 1 updated, 1 unchanged, 0 failed, 0 skipped, 0 conflicts'
+    )
+    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', 'op-etag')
+    expect(mockWriteDeploymentSummary).toHaveBeenCalledWith(
+      [
+        {
+          policy: mockPolicies[0],
+          result: expect.objectContaining({ status: 'unchanged' })
+        },
+        {
+          policy: mockPolicies[1],
+          result: expect.objectContaining({ status: 'updated' })
+        }
+      ],
+      ['api1'],
+      undefined
+    )
+    expect(mockSetResultOutputs).toHaveBeenCalledWith([
+      {
+        scope: 'api',
+        apiId: 'api1',
+        operationId: undefined,
+        productId: undefined,
+        fragmentId: undefined,
+        updated: false,
+        status: 'unchanged',
+        etag: 'api-etag'
+      },
+      {
+        apiId: 'api1',
+        operationId: 'op1',
+        updated: true,
+        status: 'updated',
+        etag: 'op-etag'
+      }
+    ])
+  })
+
+  it('should update the global policy through the service policy', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim'
+    })
+
+    const mockClient = {
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      listOperations: jest.fn<() => Promise<string[]>>(),
+      updateServicePolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'global',
+        updated: true,
+        status: 'updated',
+        etag: 'global-etag'
+      })
     }
     mockAzureApimClient.mockImplementation(() => mockClient)
 
+    mockDiscoverPolicies.mockResolvedValue([
+      {
+        filePath: '/test/global.xml',
+        scope: 'global',
+        content: '<policies></policies>'
+      }
+    ])
+    mockValidatePolicies.mockReturnValue(true)
+
     await run()
 
-    expect(mockCore.setFailed).toHaveBeenCalledWith(
-      'Failed to connect to Azure API Management service'
+    expect(mockClient.updateServicePolicy).toHaveBeenCalledWith(
+      '<policies></policies>'
     )
-    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', 'global-etag')
   })
 
-  it('should handle parsing errors', async () => {
-    mockParseInputs.mockImplementation(() => {
-      throw new Error('Invalid configuration')
+  it('should update product policies', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim'
     })
 
+    const mockClient = {
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      listOperations: jest.fn<() => Promise<string[]>>(),
+      updateProductPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'product',
+        productId: 'starter',
+        updated: true,
+        status: 'updated',
+        etag: 'product-etag'
+      })
+    }
+    mockAzureApimClient.mockImplementation(() => mockClient)
+
+    mockDiscoverPolicies.mockResolvedValue([
+      {
+        filePath: '/test/products/starter.xml',
+        productId: 'starter',
+        scope: 'product',
+        content: '<policies></policies>'
+      }
+    ])
+    mockValidatePolicies.mockReturnValue(true)
+
     await run()
 
-    expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid configuration')
-    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+    expect(mockClient.updateProductPolicy).toHaveBeenCalledWith(
+      'starter',
+      '<policies></policies>'
+    )
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Successfully updated product policy: products/starter'
+    )
   })
 
-  it('should handle policy discovery errors', async () => {
+  it('should fail when policy validation fails', async () => {
     // Mock successful parsing and connection
     const mockConfig = {
       subscriptionId: 'test-subscription',
@@ -376,26 +859,1267 @@ describe('main.ts', () => {
     }
     mockAzureApimClient.mockImplementation(() => mockClient)
 
-    // Mock policy discovery error
-    mockDiscoverPolicies.mockRejectedValue(
-      new Error('Failed to discover policies')
-    )
+    // Mock policy discovery with validation failure
+    const mockPolicies = [{ filePath: '/test/invalid.xml' }]
+    mockDiscoverPolicies.mockResolvedValue(mockPolicies)
+    mockValidatePolicies.mockReturnValue(false)
+
+    await run()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith('Policy validation failed')
+  })
+
+  it('should fail before planning when the policy structure is invalid', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim'
+    })
+    mockAzureApimClient.mockImplementation(() => ({
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      listOperations: jest.fn<() => Promise<string[]>>()
+    }))
+    mockDiscoverPolicies.mockResolvedValue([
+      { filePath: '/test/api1/api.xml', apiId: 'api1', scope: 'api' }
+    ])
+    mockValidatePolicies.mockReturnValue(true)
+    mockValidatePolicyStructure.mockReturnValue(false)
 
     await run()
 
     expect(mockCore.setFailed).toHaveBeenCalledWith(
-      'Failed to discover policies'
+      'Policy structure validation failed'
     )
-    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+    expect(mockPlanPolicyChanges).not.toHaveBeenCalled()
   })
 
-  it('should handle unknown errors', async () => {
-    mockParseInputs.mockImplementation(() => {
-      throw 'Unknown error'
+  it('should fail before planning when named values are missing', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim'
     })
+    const mockClient = {
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      listOperations: jest.fn<() => Promise<string[]>>()
+    }
+    mockAzureApimClient.mockImplementation(() => mockClient)
+    const policies = [
+      { filePath: '/test/api1/api.xml', apiId: 'api1', scope: 'api' }
+    ]
+    mockDiscoverPolicies.mockResolvedValue(policies)
+    mockValidatePolicies.mockReturnValue(true)
+    mockValidateNamedValueReferences.mockResolvedValue(false)
 
     await run()
 
-    expect(mockCore.setFailed).toHaveBeenCalledWith('An unknown error occurred')
+    expect(mockValidateNamedValueReferences).toHaveBeenCalledWith(
+      mockClient,
+      policies,
+      []
+    )
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Policies reference named values that do not exist'
+    )
+    expect(mockPlanPolicyChanges).not.toHaveBeenCalled()
+  })
+
+  it('should fail when Azure connection test fails', async () => {
+    // Mock successful parsing
+    const mockConfig = {
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim'
+    }
+    mockParseInputs.mockReturnValue(mockConfig)
+
+    // Mock failed Azure client
+    const mockClient = {
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(false)
+    }
+    mockAzureApimClient.mockImplementation(() => mockClient)
+
+    await run()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to connect to Azure API Management service'
+    )
+    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+  })
+
+  it('should handle parsing errors', async () => {
+    mockParseInputs.mockImplementation(() => {
+      throw new Error('Invalid configuration')
+    })
+
+    await run()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid configuration')
+    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+  })
+
+  it('should handle policy discovery errors', async () => {
+    // Mock successful parsing and connection
+    const mockConfig = {
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim'
+    }
+    mockParseInputs.mockReturnValue(mockConfig)
+
+    const mockClient = {
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue(['api1']),
+      listOperations: jest
+        .fn<(apiId: string) => Promise<string[]>>()
+        .mockResolvedValue([])
+    }
+    mockAzureApimClient.mockImplementation(() => mockClient)
+
+    // Mock policy discovery error
+    mockDiscoverPolicies.mockRejectedValue(
+      new Error('Failed to discover policies')
+    )
+
+    await run()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Failed to discover policies'
+    )
+    expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+  })
+
+  it('should handle unknown errors', async () => {
+    mockParseInputs.mockImplementation(() => {
+      throw 'Unknown error'
+    })
+
+    await run()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith('An unknown error occurred')
+  })
+
+  it('should deploy fragments first and skip policies including a failed fragment', async () => {
+    mockParseInputs.mockReturnValue({
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim'
+    })
+
+    const mockClient = {
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      listOperations: jest.fn<() => Promise<string[]>>(),
+      updatePolicyFragment: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'fragment',
+        fragmentId: 'auth',
+        updated: false,
+        status: 'failed',
+        error: 'Bad request'
+      }),
+      updateApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'api',
+        apiId: 'api2',
+        updated: true,
+        status: 'updated',
+        etag: 'api-etag'
+      })
+    }
+    mockAzureApimClient.mockImplementation(() => mockClient)
+
+    const apiPolicy = {
+      filePath: '/test/api1/api.xml',
+      apiId: 'api1',
+      scope: 'api',
+      content:
+        '<policies><inbound><include-fragment fragment-id="auth" /></inbound></policies>'
+    }
+    const otherApiPolicy = {
+      filePath: '/test/api2/api.xml',
+      apiId: 'api2',
+      scope: 'api',
+      content:
+        '<policies><!-- <include-fragment fragment-id="auth" /> --></policies>'
+    }
+    const fragment = {
+      filePath: '/test/fragments/auth.xml',
+      fragmentId: 'auth',
+      scope: 'fragment',
+      content: '<fragment></fragment>'
+    }
+    mockDiscoverPolicies.mockResolvedValue([
+      apiPolicy,
+      otherApiPolicy,
+      fragment
+    ])
+    mockValidatePolicies.mockReturnValue(true)
+
+    await run()
+
+    expect(mockPlanPolicyChanges).toHaveBeenCalledWith(mockClient, [
+      fragment,
+      apiPolicy,
+      otherApiPolicy
+    ])
+    expect(mockClient.updatePolicyFragment).toHaveBeenCalledWith(
+      'auth',
+      '<fragment></fragment>'
+    )
+    expect(mockClient.updateApiPolicy).toHaveBeenCalledTimes(1)
+    expect(mockClient.updateApiPolicy).toHaveBeenCalledWith(
+      'api2',
+      '<policies><!-- <include-fragment fragment-id="auth" /> --></policies>',
+      undefined
+    )
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      "Skipping api policy: api1 - Policy fragment 'auth' failed to deploy"
+    )
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Policy updates: 1 updated, 0 unchanged, 1 failed, 1 skipped, 0 conflicts'
+    )
+  })
+
+  describe('named values', () => {
+    beforeEach(() => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        policyManifestPath: 'manifest.yaml'
+      })
+      mockLoadPolicyManifest.mockResolvedValue({
+        namedValues: { 'tenant-id': { value: 'contoso' } }
+      })
+      mockDiscoverPolicies.mockResolvedValue([
+        {
+          filePath: '/test/global.xml',
+          scope: 'global',
+          content: '<policies />'
+        }
+      ])
+      mockValidatePolicies.mockReturnValue(true)
+    })
+
+    const createClient = (): any => ({
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      listOperations: jest.fn<() => Promise<string[]>>(),
+      updateServicePolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'global',
+        updated: true,
+        status: 'updated'
+      })
+    })
+
+    it('should deploy named values from the manifest before the policies', async () => {
+      const mockClient = createClient()
+      mockAzureApimClient.mockImplementation(() => mockClient)
+
+      await run()
+
+      const namedValues = [
+        {
+          namedValueId: 'tenant-id',
+          displayName: 'tenant-id',
+          value: 'contoso',
+          secret: false
+        }
+      ]
+      expect(mockValidateNamedValueReferences).toHaveBeenCalledWith(
+        mockClient,
+        expect.any(Array),
+        ['tenant-id']
+      )
+      expect(mockDeployNamedValues).toHaveBeenCalledWith(
+        mockClient,
+        namedValues
+      )
+      expect(mockDeployNamedValues.mock.invocationCallOrder[0]).toBeLessThan(
+        mockClient.updateServicePolicy.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('should not update policies when named values fail to deploy', async () => {
+      const mockClient = createClient()
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockDeployNamedValues.mockResolvedValue(false)
+
+      await run()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Failed to deploy named values'
+      )
+      expect(mockClient.updateServicePolicy).not.toHaveBeenCalled()
+    })
+
+    it('should only list named values in dry run mode', async () => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        policyManifestPath: 'manifest.yaml',
+        dryRun: true
+      })
+      mockAzureApimClient.mockImplementation(() => createClient())
+
+      await run()
+
+      expect(mockDeployNamedValues).not.toHaveBeenCalled()
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Named values to create or update: tenant-id'
+      )
+    })
+  })
+
+  describe('backends', () => {
+    beforeEach(() => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        policyManifestPath: 'manifest.yaml'
+      })
+      mockLoadPolicyManifest.mockResolvedValue({
+        backends: { orders: { url: 'https://orders.contoso.com' } }
+      })
+      mockDiscoverPolicies.mockResolvedValue([
+        {
+          filePath: '/test/global.xml',
+          scope: 'global',
+          content: '<policies />'
+        }
+      ])
+      mockValidatePolicies.mockReturnValue(true)
+    })
+
+    const createClient = (): any => ({
+      testConnection: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      listOperations: jest.fn<() => Promise<string[]>>(),
+      updateServicePolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'global',
+        updated: true,
+        status: 'updated'
+      })
+    })
+
+    it('should deploy backends from the manifest before the policies', async () => {
+      const mockClient = createClient()
+      mockAzureApimClient.mockImplementation(() => mockClient)
+
+      await run()
+
+      expect(mockValidateBackendReferences).toHaveBeenCalledWith(
+        mockClient,
+        expect.any(Array),
+        ['orders']
+      )
+      expect(mockDeployBackends).toHaveBeenCalledWith(mockClient, [
+        { backendId: 'orders', url: 'https://orders.contoso.com' }
+      ])
+      expect(mockDeployBackends.mock.invocationCallOrder[0]).toBeLessThan(
+        mockClient.updateServicePolicy.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('should fail before planning when backend references are unknown', async () => {
+      mockAzureApimClient.mockImplementation(() => createClient())
+      mockValidateBackendReferences.mockResolvedValue(false)
+
+      await run()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Policies reference backends that do not exist'
+      )
+      expect(mockPlanPolicyChanges).not.toHaveBeenCalled()
+    })
+
+    it('should not update policies when backends fail to deploy', async () => {
+      const mockClient = createClient()
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockDeployBackends.mockResolvedValue(false)
+
+      await run()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Failed to deploy backends'
+      )
+      expect(mockClient.updateServicePolicy).not.toHaveBeenCalled()
+    })
+
+    it('should only list backends in dry run mode', async () => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        policyManifestPath: 'manifest.yaml',
+        dryRun: true
+      })
+      mockAzureApimClient.mockImplementation(() => createClient())
+
+      await run()
+
+      expect(mockDeployBackends).not.toHaveBeenCalled()
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Backends to create or update: orders'
+      )
+    })
+  })
+
+  describe('prune', () => {
+    const pruneConfig = {
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim',
+      prune: 'delete'
+    }
+    const policies = [
+      {
+        filePath: 'policies/api1/api.xml',
+        apiId: 'api1',
+        scope: 'api',
+        content: '<policies />'
+      }
+    ]
+    const prunable = [
+      {
+        scope: 'operation',
+        apiId: 'api1',
+        operationId: 'op1',
+        live: { content: '<policies />' }
+      }
+    ]
+    let mockClient: any
+
+    beforeEach(() => {
+      mockClient = {
+        testConnection: jest
+          .fn<() => Promise<boolean>>()
+          .mockResolvedValue(true),
+        listApis: jest
+          .fn<() => Promise<string[]>>()
+          .mockResolvedValue(['api1']),
+        listOperations: jest
+          .fn<() => Promise<string[]>>()
+          .mockResolvedValue(['op1']),
+        updateApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+          scope: 'api',
+          apiId: 'api1',
+          updated: true,
+          status: 'updated'
+        })
+      }
+      mockParseInputs.mockReturnValue(pruneConfig)
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockDiscoverPolicies.mockResolvedValue(policies)
+      mockValidatePolicies.mockReturnValue(true)
+      mockFindPrunablePolicies.mockResolvedValue(prunable)
+    })
+
+    it('should prune after updating the policies and list the prunes', async () => {
+      const pruned = [
+        {
+          scope: 'operation',
+          apiId: 'api1',
+          operationId: 'op1',
+          action: 'deleted',
+          pruned: true
+        }
+      ]
+      mockPrunePolicies.mockResolvedValue(pruned)
+
+      await run()
+
+      expect(mockFindPrunablePolicies).toHaveBeenCalledWith(
+        mockClient,
+        policies,
+        ['api1'],
+        'delete',
+        []
+      )
+      expect(mockPrunePolicies).toHaveBeenCalledWith(
+        mockClient,
+        prunable,
+        'delete'
+      )
+      expect(
+        mockClient.updateApiPolicy.mock.invocationCallOrder[0]
+      ).toBeLessThan(mockPrunePolicies.mock.invocationCallOrder[0])
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'pruned',
+        JSON.stringify(pruned)
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('pruned_count', 1)
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('should not prune policies declared in the manifest', async () => {
+      mockParseInputs.mockReturnValue({
+        ...pruneConfig,
+        policyManifestPath: 'manifest.yaml'
+      })
+      mockLoadPolicyManifest.mockResolvedValue({
+        policies: {
+          api1: { apiPolicyPath: 'policies/api1/api.xml' },
+          api2: { operations: { op1: 'policies/api2/op1.xml' } }
+        }
+      })
+
+      await run()
+
+      expect(mockFindPrunablePolicies).toHaveBeenCalledWith(
+        mockClient,
+        policies,
+        ['api1'],
+        'delete',
+        ['api1', 'api2']
+      )
+    })
+
+    it('should fail the run when a prune fails', async () => {
+      mockPrunePolicies.mockResolvedValue([
+        {
+          scope: 'operation',
+          apiId: 'api1',
+          operationId: 'op1',
+          action: 'deleted',
+          pruned: false,
+          error: 'Forbidden'
+        }
+      ])
+
+      await run()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '1 of 1 policy prunes failed:\noperation policy api1/op1: Forbidden'
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('pruned_count', 0)
+    })
+
+    it('should only list the policies to prune in dry run mode', async () => {
+      mockParseInputs.mockReturnValue({ ...pruneConfig, dryRun: true })
+
+      await run()
+
+      expect(mockPrunePolicies).not.toHaveBeenCalled()
+      expect(mockCore.info).toHaveBeenCalledWith('Policies to delete: api1/op1')
+    })
+
+    it('should not set prune outputs when pruning is disabled', async () => {
+      mockParseInputs.mockReturnValue({ ...pruneConfig, prune: 'none' })
+      mockFindPrunablePolicies.mockResolvedValue([])
+
+      await run()
+
+      expect(mockPrunePolicies).not.toHaveBeenCalled()
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith(
+        'pruned_count',
+        expect.anything()
+      )
+    })
+  })
+
+  describe('export mode', () => {
+    const exportConfig = {
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim',
+      mode: 'export',
+      exportDir: 'exported',
+      exportManifestPath: 'exported/policy_manifest.yaml'
+    }
+
+    it('should export the live policies without discovering policy files', async () => {
+      const mockClient = {
+        testConnection: jest
+          .fn<() => Promise<boolean>>()
+          .mockResolvedValue(true)
+      }
+      mockParseInputs.mockReturnValue(exportConfig)
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockExportPolicies.mockResolvedValue([
+        { filePath: 'exported/policies/api1/api.xml', apiId: 'api1' }
+      ])
+
+      await run()
+
+      expect(mockExportPolicies).toHaveBeenCalledWith(mockClient, 'exported')
+      expect(mockWritePolicyManifest).toHaveBeenCalledWith(
+        'exported/policy_manifest.yaml',
+        { policies: { api1: {} } }
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('exported_count', 1)
+      expect(mockDiscoverPolicies).not.toHaveBeenCalled()
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('should only export from a single target', async () => {
+      mockParseInputs.mockReturnValue({
+        ...exportConfig,
+        targets: [{ serviceName: 'apim-a' }, { serviceName: 'apim-b' }]
+      })
+
+      await run()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Export mode supports a single APIM target'
+      )
+      expect(mockExportPolicies).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('drift-check mode', () => {
+    const driftConfig = {
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim',
+      mode: 'drift-check'
+    }
+    const policies = [
+      { filePath: 'policies/api1/api.xml', apiId: 'api1', scope: 'api' }
+    ]
+    let mockClient: any
+
+    beforeEach(() => {
+      mockClient = {
+        testConnection: jest
+          .fn<() => Promise<boolean>>()
+          .mockResolvedValue(true),
+        updateApiPolicy: jest.fn()
+      }
+      mockParseInputs.mockReturnValue(driftConfig)
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockDiscoverPolicies.mockResolvedValue(policies)
+      mockValidatePolicies.mockReturnValue(true)
+    })
+
+    it('should succeed without deploying when nothing drifted', async () => {
+      mockDetectDrift.mockResolvedValue([])
+
+      await run()
+
+      expect(mockDetectDrift).toHaveBeenCalledWith(
+        mockClient,
+        policies,
+        undefined,
+        []
+      )
+      expect(mockWriteDriftSummary).toHaveBeenCalledWith([], undefined)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('drift_count', 0)
+      expect(mockPlanPolicyChanges).not.toHaveBeenCalled()
+      expect(mockClient.updateApiPolicy).not.toHaveBeenCalled()
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('should pass the excluded APIs and declared policies of the environment', async () => {
+      mockParseInputs.mockReturnValue({
+        ...driftConfig,
+        policyManifestPath: 'manifest.yaml',
+        environment: 'prod'
+      })
+      mockLoadPolicyManifest.mockResolvedValue({
+        policies: { api1: {}, 'debug-api': {} },
+        environments: {
+          prod: { serviceName: 'test-apim', excludeApis: ['debug-api'] }
+        }
+      })
+      mockDetectDrift.mockResolvedValue([])
+
+      await run()
+
+      expect(mockDetectDrift).toHaveBeenCalledWith(
+        mockClient,
+        policies,
+        ['debug-api'],
+        ['api1']
+      )
+    })
+
+    it('should fail when policies drifted', async () => {
+      mockDetectDrift.mockResolvedValue([
+        { kind: 'differs', scope: 'api', apiId: 'api1' },
+        { kind: 'live-only', scope: 'api', apiId: 'api2' }
+      ])
+
+      await run()
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('drift_count', 2)
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Drift detected (2): the APIM service does not match the repository'
+      )
+      expect(mockClient.updateApiPolicy).not.toHaveBeenCalled()
+    })
+
+    it('should check every target', async () => {
+      mockParseInputs.mockReturnValue({
+        ...driftConfig,
+        targets: [{ serviceName: 'apim-a' }, { serviceName: 'apim-b' }]
+      })
+      mockDetectDrift
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ kind: 'differs', scope: 'api' }])
+
+      await run()
+
+      expect(mockDetectDrift).toHaveBeenCalledTimes(2)
+      expect(mockWriteDriftSummary).toHaveBeenCalledWith([], 'apim-a')
+      expect(mockWriteDriftSummary).toHaveBeenCalledWith(
+        [{ kind: 'differs', scope: 'api' }],
+        'apim-b'
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('drift_count', 1)
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Drift detected (1): the APIM service does not match the repository'
+      )
+    })
+  })
+
+  describe('restore mode', () => {
+    const restoreConfig = {
+      subscriptionId: 'test-subscription',
+      resourceGroupName: 'test-rg',
+      serviceName: 'test-apim',
+      mode: 'restore',
+      snapshotPath: 'snapshot.json'
+    }
+    const snapshot = {
+      createdAt: '2024-01-01T00:00:00.000Z',
+      policies: [{ scope: 'api', apiId: 'api1', content: '<policies />' }]
+    }
+    let mockClient: any
+
+    beforeEach(() => {
+      mockClient = {
+        testConnection: jest
+          .fn<() => Promise<boolean>>()
+          .mockResolvedValue(true)
+      }
+      mockParseInputs.mockReturnValue(restoreConfig)
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockLoadSnapshot.mockResolvedValue(snapshot)
+    })
+
+    it('should restore the snapshot without discovering policy files', async () => {
+      const results = [
+        { scope: 'api', apiId: 'api1', updated: true, status: 'updated' }
+      ]
+      mockRestoreSnapshot.mockResolvedValue(results)
+
+      await run()
+
+      expect(mockLoadSnapshot).toHaveBeenCalledWith('snapshot.json')
+      expect(mockRestoreSnapshot).toHaveBeenCalledWith(
+        mockClient,
+        snapshot.policies,
+        'snapshot.json',
+        undefined
+      )
+      expect(mockSetResultOutputs).toHaveBeenCalledWith(results)
+      expect(mockDiscoverPolicies).not.toHaveBeenCalled()
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('should fail when a policy cannot be restored', async () => {
+      mockRestoreSnapshot.mockResolvedValue([
+        {
+          scope: 'api',
+          apiId: 'api1',
+          updated: false,
+          status: 'failed',
+          error: 'Bad request'
+        }
+      ])
+
+      await run()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '1 of 1 policy updates failed:\napi policy api1: Bad request'
+      )
+    })
+
+    it('should pass dry run to the restore', async () => {
+      mockParseInputs.mockReturnValue({ ...restoreConfig, dryRun: true })
+      mockRestoreSnapshot.mockResolvedValue([])
+
+      await run()
+
+      expect(mockRestoreSnapshot).toHaveBeenCalledWith(
+        mockClient,
+        snapshot.policies,
+        'snapshot.json',
+        true
+      )
+    })
+  })
+
+  describe('multiple targets', () => {
+    const createClient = (connected: boolean, status: string): any => ({
+      testConnection: jest
+        .fn<() => Promise<boolean>>()
+        .mockResolvedValue(connected),
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+      updateServicePolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'global',
+        updated: status === 'updated',
+        status,
+        etag: `etag-${status}`,
+        error: status === 'failed' ? 'Bad request' : undefined
+      })
+    })
+
+    let clients: Record<string, any>
+
+    const runWithTargets = async (canary?: boolean): Promise<void> => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: '',
+        targets: [
+          { serviceName: 'apim-weu' },
+          { serviceName: 'apim-eus' },
+          { serviceName: 'apim-sea' }
+        ],
+        canary
+      })
+      mockAzureApimClient.mockImplementation(
+        (config: any) => clients[config.serviceName]
+      )
+      mockDiscoverPolicies.mockResolvedValue([
+        {
+          filePath: '/test/global.xml',
+          scope: 'global',
+          content: '<policies />'
+        }
+      ])
+      mockValidatePolicies.mockReturnValue(true)
+
+      await run()
+    }
+
+    it('should validate once and deploy to every target with its own client', async () => {
+      clients = {
+        'apim-weu': createClient(true, 'updated'),
+        'apim-eus': createClient(false, 'updated'),
+        'apim-sea': createClient(true, 'failed')
+      }
+
+      await runWithTargets()
+
+      expect(mockDiscoverPolicies).toHaveBeenCalledTimes(1)
+      expect(mockValidatePolicies).toHaveBeenCalledTimes(1)
+      expect(mockAzureApimClient).toHaveBeenCalledTimes(3)
+      expect(clients['apim-weu'].updateServicePolicy).toHaveBeenCalled()
+      expect(clients['apim-sea'].updateServicePolicy).toHaveBeenCalled()
+      expect(mockWriteDeploymentSummary).toHaveBeenCalledWith(
+        expect.any(Array),
+        [],
+        'apim-weu'
+      )
+      expect(mockSetResultOutputs).toHaveBeenCalledWith([
+        expect.objectContaining({ status: 'updated', target: 'apim-weu' }),
+        expect.objectContaining({ status: 'failed', target: 'apim-sea' })
+      ])
+      expect(mockCore.setOutput).toHaveBeenCalledWith('etag', 'etag-updated')
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Deployment failed for 2 of 3 targets:\napim-eus: Failed to connect to Azure API Management service\napim-sea: 1 of 1 policy updates failed:\nglobal policy global: Bad request'
+      )
+    })
+
+    it('should stop the remaining targets when the canary target fails', async () => {
+      clients = {
+        'apim-weu': createClient(true, 'failed'),
+        'apim-eus': createClient(true, 'updated'),
+        'apim-sea': createClient(true, 'updated')
+      }
+
+      await runWithTargets(true)
+
+      expect(mockAzureApimClient).toHaveBeenCalledTimes(1)
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Canary target apim-weu failed, skipping targets: apim-eus, apim-sea'
+      )
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('Deployment failed for 1 of 3 targets')
+      )
+    })
+
+    it('should continue after a successful canary target', async () => {
+      clients = {
+        'apim-weu': createClient(true, 'updated'),
+        'apim-eus': createClient(true, 'updated'),
+        'apim-sea': createClient(true, 'updated')
+      }
+
+      await runWithTargets(true)
+
+      expect(mockAzureApimClient).toHaveBeenCalledTimes(3)
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Action completed successfully'
+      )
+    })
+  })
+
+  describe('failure policy', () => {
+    const policies = [
+      {
+        filePath: '/test/api1/api.xml',
+        apiId: 'api1',
+        scope: 'api',
+        content: '<policies></policies>'
+      },
+      {
+        filePath: '/test/api2/api.xml',
+        apiId: 'api2',
+        scope: 'api',
+        content: '<policies></policies>'
+      }
+    ]
+
+    const runWithOneFailure = async (failOn?: string): Promise<void> => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        failOn
+      })
+      mockAzureApimClient.mockImplementation(() => ({
+        testConnection: jest
+          .fn<() => Promise<boolean>>()
+          .mockResolvedValue(true),
+        listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+        listOperations: jest.fn<() => Promise<string[]>>(),
+        updateApiPolicy: jest.fn(async (apiId: string) =>
+          apiId === 'api1'
+            ? {
+                scope: 'api',
+                apiId,
+                updated: false,
+                status: 'failed',
+                error: 'Bad request'
+              }
+            : { scope: 'api', apiId, updated: true, status: 'updated' }
+        )
+      }))
+      mockDiscoverPolicies.mockResolvedValue(policies)
+      mockValidatePolicies.mockReturnValue(true)
+
+      await run()
+    }
+
+    it('should fail the run when any policy update fails by default', async () => {
+      await runWithOneFailure()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '1 of 2 policy updates failed:\napi policy api1: Bad request'
+      )
+      expect(mockCore.info).not.toHaveBeenCalledWith(
+        'Action completed successfully'
+      )
+    })
+
+    it('should only fail the run when all policy updates fail', async () => {
+      await runWithOneFailure('all')
+
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Action completed successfully'
+      )
+    })
+
+    it('should never fail the run for policy update failures', async () => {
+      await runWithOneFailure('never')
+
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('snapshot and rollback', () => {
+    const policies = [
+      {
+        filePath: '/test/api1/api.xml',
+        apiId: 'api1',
+        scope: 'api',
+        content: '<policies></policies>'
+      },
+      {
+        filePath: '/test/api2/api.xml',
+        apiId: 'api2',
+        scope: 'api',
+        content: '<policies></policies>'
+      }
+    ]
+    let mockClient: any
+
+    beforeEach(() => {
+      mockClient = {
+        testConnection: jest
+          .fn<() => Promise<boolean>>()
+          .mockResolvedValue(true),
+        listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+        listOperations: jest.fn<() => Promise<string[]>>(),
+        updateApiPolicy: jest.fn(async (apiId: string) =>
+          apiId === 'api2'
+            ? {
+                scope: 'api',
+                apiId,
+                updated: false,
+                status: 'failed',
+                error: 'Bad request'
+              }
+            : {
+                scope: 'api',
+                apiId,
+                updated: true,
+                status: 'updated',
+                etag: 'etag-new'
+              }
+        )
+      }
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        rollbackOnFailure: true
+      })
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockDiscoverPolicies.mockResolvedValue(policies)
+      mockValidatePolicies.mockReturnValue(true)
+      mockPlanPolicyChanges.mockImplementation(
+        async (_client: unknown, planned: any[]) =>
+          planned.map((policy) => ({
+            policy,
+            action: 'update',
+            live: { content: `<old-${policy.apiId} />`, etag: 'etag-old' }
+          }))
+      )
+      mockRollbackPolicies.mockImplementation(
+        async (_client: unknown, _entries: any[], results: any[]) =>
+          results.map((result) =>
+            result.updated ? { ...result, rolledBack: true } : result
+          )
+      )
+    })
+
+    it('should write the snapshot before updating any policy', async () => {
+      await run()
+
+      expect(mockWriteSnapshotFile).toHaveBeenCalledWith({
+        createdAt: expect.any(String),
+        policies: [
+          { scope: 'api', apiId: 'api1', content: '<old-api1 />' },
+          { scope: 'api', apiId: 'api2', content: '<old-api2 />' }
+        ]
+      })
+      expect(mockWriteSnapshotFile.mock.invocationCallOrder[0]).toBeLessThan(
+        mockClient.updateApiPolicy.mock.invocationCallOrder[0]
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'snapshot_file',
+        '/tmp/apim-policy-snapshot.json'
+      )
+    })
+
+    it('should roll back the updated policies when an update fails', async () => {
+      await run()
+
+      expect(mockRollbackPolicies).toHaveBeenCalledWith(
+        mockClient,
+        [
+          { scope: 'api', apiId: 'api1', content: '<old-api1 />' },
+          { scope: 'api', apiId: 'api2', content: '<old-api2 />' }
+        ],
+        [
+          expect.objectContaining({ apiId: 'api1', status: 'updated' }),
+          expect.objectContaining({ apiId: 'api2', status: 'failed' })
+        ]
+      )
+      expect(mockSetResultOutputs).toHaveBeenCalledWith([
+        expect.objectContaining({ apiId: 'api1', rolledBack: true }),
+        expect.objectContaining({ apiId: 'api2', status: 'failed' })
+      ])
+      expect(mockCore.setOutput).toHaveBeenCalledWith('etag', '')
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '1 of 2 policy updates failed:\napi policy api2: Bad request'
+      )
+    })
+
+    it('should fail the run when a rollback fails', async () => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        rollbackOnFailure: true,
+        failOn: 'never'
+      })
+      mockRollbackPolicies.mockImplementation(
+        async (_client: unknown, _entries: any[], results: any[]) =>
+          results.map((result) =>
+            result.updated
+              ? { ...result, rolledBack: false, error: 'Rollback failed: 409' }
+              : result
+          )
+      )
+
+      await run()
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '1 updated policies could not be rolled back:\napi policy api1: Rollback failed: 409'
+      )
+    })
+
+    it('should not roll back without rollback_on_failure', async () => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim'
+      })
+
+      await run()
+
+      expect(mockRollbackPolicies).not.toHaveBeenCalled()
+      expect(mockCore.setOutput).toHaveBeenCalledWith('etag', 'etag-new')
+    })
+
+    it('should not write a snapshot in dry run mode', async () => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        dryRun: true
+      })
+
+      await run()
+
+      expect(mockWriteSnapshotFile).not.toHaveBeenCalled()
+      expect(mockCore.setOutput).toHaveBeenCalledWith('snapshot_file', '')
+    })
+  })
+
+  describe('conflicts', () => {
+    const policies = ['api1', 'api2', 'api3'].map((apiId) => ({
+      filePath: `/test/${apiId}/api.xml`,
+      apiId,
+      scope: 'api',
+      content: '<policies></policies>'
+    }))
+    let mockClient: any
+
+    beforeEach(() => {
+      mockClient = {
+        testConnection: jest
+          .fn<() => Promise<boolean>>()
+          .mockResolvedValue(true),
+        listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue([]),
+        listOperations: jest.fn<() => Promise<string[]>>(),
+        updateApiPolicy: jest.fn(async (apiId: string) =>
+          apiId === 'api2'
+            ? {
+                scope: 'api',
+                apiId,
+                updated: false,
+                status: 'conflict',
+                error: 'ETag mismatch'
+              }
+            : {
+                scope: 'api',
+                apiId,
+                updated: true,
+                status: 'updated',
+                etag: 'etag-new'
+              }
+        )
+      }
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        onConflict: 'abort'
+      })
+      mockAzureApimClient.mockImplementation(() => mockClient)
+      mockDiscoverPolicies.mockResolvedValue(policies)
+      mockValidatePolicies.mockReturnValue(true)
+      mockPlanPolicyChanges.mockImplementation(
+        async (_client: unknown, planned: any[]) =>
+          planned.map((policy) => ({
+            policy,
+            action: 'update',
+            live: { content: '<old />', etag: `etag-${policy.apiId}` }
+          }))
+      )
+    })
+
+    it('should update with the compared ETag and skip the remaining updates after a conflict', async () => {
+      await run()
+
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledTimes(2)
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledWith(
+        'api1',
+        '<policies></policies>',
+        'etag-api1'
+      )
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledWith(
+        'api2',
+        '<policies></policies>',
+        'etag-api2'
+      )
+      expect(mockSetResultOutputs).toHaveBeenCalledWith([
+        expect.objectContaining({ apiId: 'api1', status: 'updated' }),
+        expect.objectContaining({ apiId: 'api2', status: 'conflict' }),
+        expect.objectContaining({
+          apiId: 'api3',
+          status: 'skipped',
+          error: 'Skipped after a conflict on api policy api2'
+        })
+      ])
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Policy updates: 1 updated, 0 unchanged, 0 failed, 1 skipped, 1 conflicts'
+      )
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        '2 of 3 policy updates failed:\napi policy api2: ETag mismatch\napi policy api3: Skipped after a conflict on api policy api2'
+      )
+    })
+
+    it('should roll back on a conflict with rollback_on_failure', async () => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        rollbackOnFailure: true
+      })
+      mockRollbackPolicies.mockImplementation(
+        async (_client: unknown, _entries: any[], results: any[]) => results
+      )
+
+      await run()
+
+      expect(mockRollbackPolicies).toHaveBeenCalled()
+    })
+
+    it('should overwrite without an ETag check when forced', async () => {
+      mockParseInputs.mockReturnValue({
+        subscriptionId: 'test-subscription',
+        resourceGroupName: 'test-rg',
+        serviceName: 'test-apim',
+        onConflict: 'force'
+      })
+      mockClient.updateApiPolicy.mockResolvedValue({
+        scope: 'api',
+        updated: true,
+        status: 'updated'
+      })
+
+      await run()
+
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledTimes(3)
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledWith(
+        'api1',
+        '<policies></policies>',
+        undefined
+      )
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+    })
   })
 })
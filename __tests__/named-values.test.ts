@@ -0,0 +1,222 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import type { PolicyFile } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  error: jest.fn(),
+  setSecret: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const {
+  extractNamedValueReferences,
+  validateNamedValueReferences,
+  resolveNamedValues,
+  deployNamedValues
+} = await import('../src/named-values.js')
+
+describe('named-values', () => {
+  let mockClient: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockClient = {
+      listNamedValues: jest
+        .fn<() => Promise<string[]>>()
+        .mockResolvedValue(['Backend-Key']),
+      updateNamedValue: jest.fn<(namedValue: any) => Promise<any>>()
+    }
+  })
+
+  describe('extractNamedValueReferences', () => {
+    it('should return each reference with its line and column', () => {
+      expect(
+        extractNamedValueReferences(
+          '<policies>\n  <set-header name="k"><value>{{backend-key}}</value></set-header>\n  <x a="{{ tenant }}" b="{{backend-key}}" />\n</policies>'
+        )
+      ).toEqual([
+        { name: 'backend-key', line: 2, column: 31 },
+        { name: 'tenant', line: 3, column: 9 },
+        { name: 'backend-key', line: 3, column: 26 }
+      ])
+    })
+
+    it('should skip comments and Liquid templates', () => {
+      expect(
+        extractNamedValueReferences(
+          '<policies>\n  <!-- uses {{old-key}} -->\n  <set-body template="liquid">{"n":"{{body.name}}"}</set-body>\n  <set-body>{{body-prefix}}</set-body>\n</policies>'
+        )
+      ).toEqual([{ name: 'body-prefix', line: 4, column: 13 }])
+    })
+
+    it('should skip brace escapes in C# interpolated strings', () => {
+      expect(
+        extractNamedValueReferences(
+          '<policies><set-header name="x"><value>@($"{{id}}-{context.RequestId}")</value></set-header><x a="@(&quot;{{tenant}}&quot;)" /></policies>'
+        )
+      ).toEqual([{ name: 'tenant', line: 1, column: 106 }])
+    })
+
+    it('should report positions in CDATA and after entity references', () => {
+      expect(
+        extractNamedValueReferences(
+          '<policies><value>&amp;{{a}}</value><value><![CDATA[&amp;{{b}}]]></value></policies>'
+        )
+      ).toEqual([
+        { name: 'a', line: 1, column: 23 },
+        { name: 'b', line: 1, column: 57 }
+      ])
+    })
+
+    it('should return no references for content that is not XML', () => {
+      expect(extractNamedValueReferences('<policies>{{a}}')).toEqual([])
+    })
+  })
+
+  describe('validateNamedValueReferences', () => {
+    const policy: PolicyFile = {
+      filePath: '/test/api1/api.xml',
+      apiId: 'api1',
+      scope: 'api',
+      content:
+        '<policies>\n  <x a="{{backend-key}}" b="{{missing}}" />\n</policies>'
+    }
+
+    it('should report unresolved references per file and line', async () => {
+      const result = await validateNamedValueReferences(mockClient, [policy])
+
+      expect(result).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledTimes(1)
+      expect(mockCore.error).toHaveBeenCalledWith(
+        'Unresolved named value {{missing}} in /test/api1/api.xml (line 2, column 29)',
+        { file: '/test/api1/api.xml', startLine: 2, startColumn: 29 }
+      )
+    })
+
+    it('should fail when the named values cannot be listed', async () => {
+      mockClient.listNamedValues.mockRejectedValue(
+        new Error('Failed to list named values: Forbidden')
+      )
+
+      await expect(
+        validateNamedValueReferences(mockClient, [policy])
+      ).rejects.toThrow('Failed to list named values: Forbidden')
+      expect(mockCore.error).not.toHaveBeenCalled()
+    })
+
+    it('should accept named values declared in the manifest', async () => {
+      const result = await validateNamedValueReferences(
+        mockClient,
+        [policy],
+        ['missing']
+      )
+
+      expect(result).toBe(true)
+    })
+
+    it('should not list named values when nothing is referenced', async () => {
+      const result = await validateNamedValueReferences(mockClient, [
+        { ...policy, content: '<policies />' }
+      ])
+
+      expect(result).toBe(true)
+      expect(mockClient.listNamedValues).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolveNamedValues', () => {
+    afterEach(() => {
+      delete process.env.BACKEND_KEY
+    })
+
+    it('should resolve plain, secret and Key Vault named values', () => {
+      process.env.BACKEND_KEY = 'env-secret'
+
+      expect(
+        resolveNamedValues(
+          {
+            'tenant-id': { value: 'contoso', tags: ['auth'] },
+            'backend-key': { valueFromEnv: 'BACKEND_KEY' },
+            'client-secret': {
+              displayName: 'ClientSecret',
+              valueFromInput: 'client'
+            },
+            certificate: {
+              keyVaultSecretId: 'https://vault.vault.azure.net/secrets/cert',
+              keyVaultIdentityClientId: 'client-id'
+            }
+          },
+          { client: 'input-secret' }
+        )
+      ).toEqual([
+        {
+          namedValueId: 'tenant-id',
+          displayName: 'tenant-id',
+          value: 'contoso',
+          secret: false,
+          tags: ['auth']
+        },
+        {
+          namedValueId: 'backend-key',
+          displayName: 'backend-key',
+          value: 'env-secret',
+          secret: true
+        },
+        {
+          namedValueId: 'client-secret',
+          displayName: 'ClientSecret',
+          value: 'input-secret',
+          secret: true
+        },
+        {
+          namedValueId: 'certificate',
+          displayName: 'certificate',
+          secret: true,
+          keyVault: {
+            secretIdentifier: 'https://vault.vault.azure.net/secrets/cert',
+            identityClientId: 'client-id'
+          }
+        }
+      ])
+      expect(mockCore.setSecret).toHaveBeenCalledWith('env-secret')
+      expect(mockCore.setSecret).toHaveBeenCalledWith('input-secret')
+    })
+
+    it('should throw for missing secrets and ambiguous sources', () => {
+      expect(() =>
+        resolveNamedValues({ key: { valueFromEnv: 'BACKEND_KEY' } })
+      ).toThrow(
+        'Environment variable BACKEND_KEY for named value key is not set'
+      )
+      expect(() =>
+        resolveNamedValues({ key: { valueFromInput: 'key' } }, {})
+      ).toThrow(
+        'Key key for named value key is missing from the named_value_secrets input'
+      )
+      expect(() =>
+        resolveNamedValues({ key: { value: 'a', valueFromEnv: 'A' } })
+      ).toThrow(
+        'Named value key must set exactly one of value, valueFromEnv, valueFromInput or keyVaultSecretId'
+      )
+    })
+  })
+
+  describe('deployNamedValues', () => {
+    it('should update every named value and report failures', async () => {
+      mockClient.updateNamedValue
+        .mockResolvedValueOnce({ namedValueId: 'a', updated: false })
+        .mockResolvedValueOnce({ namedValueId: 'b', updated: true })
+      const namedValues = [
+        { namedValueId: 'a', displayName: 'a', value: '1', secret: false },
+        { namedValueId: 'b', displayName: 'b', value: '2', secret: false }
+      ]
+
+      expect(await deployNamedValues(mockClient, namedValues)).toBe(false)
+      expect(mockClient.updateNamedValue).toHaveBeenCalledTimes(2)
+    })
+  })
+})
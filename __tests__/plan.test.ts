@@ -0,0 +1,214 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import type { PolicyFile } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  warning: jest.fn(),
+  startGroup: jest.fn(),
+  endGroup: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const { planPolicyChanges, reportPolicyPlan } = await import('../src/plan.js')
+
+describe('plan', () => {
+  const apiPolicy: PolicyFile = {
+    filePath: '/test/api1/api.xml',
+    apiId: 'api1',
+    scope: 'api',
+    content: '<policies>\n  <inbound><base /></inbound>\n</policies>'
+  }
+  const operationPolicy: PolicyFile = {
+    filePath: '/test/api1/operations/op1.xml',
+    apiId: 'api1',
+    operationId: 'op1',
+    scope: 'operation',
+    content: '<policies><inbound><base /></inbound></policies>'
+  }
+
+  let mockClient: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockClient = {
+      listApis: jest.fn<() => Promise<string[]>>().mockResolvedValue(['api1']),
+      listOperations: jest
+        .fn<(apiId: string) => Promise<string[]>>()
+        .mockResolvedValue(['op1']),
+      listProducts: jest
+        .fn<() => Promise<string[]>>()
+        .mockResolvedValue(['starter']),
+      getServicePolicy: jest.fn<() => Promise<any>>().mockResolvedValue(null),
+      getProductPolicy: jest.fn<() => Promise<any>>().mockResolvedValue(null),
+      getApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue(null),
+      getOperationPolicy: jest.fn<() => Promise<any>>().mockResolvedValue(null),
+      getPolicyFragment: jest.fn<() => Promise<any>>().mockResolvedValue(null),
+      updateApiPolicy: jest.fn(),
+      updateOperationPolicy: jest.fn()
+    }
+  })
+
+  describe('planPolicyChanges', () => {
+    it('should plan create when no live policy exists', async () => {
+      const plan = await planPolicyChanges(mockClient, [apiPolicy])
+
+      expect(plan).toEqual([
+        {
+          policy: apiPolicy,
+          action: 'create',
+          diff: expect.stringContaining('+<policies>')
+        }
+      ])
+    })
+
+    it('should plan unchanged when only formatting differs', async () => {
+      const live = {
+        content: '<policies>\r\n<inbound>\r\n<base/></inbound>\r\n</policies>',
+        etag: 'etag-1'
+      }
+      mockClient.getApiPolicy.mockResolvedValue(live)
+
+      const plan = await planPolicyChanges(mockClient, [apiPolicy])
+
+      expect(plan).toEqual([{ policy: apiPolicy, action: 'unchanged', live }])
+    })
+
+    it('should plan update when content differs', async () => {
+      const live = {
+        content: '<policies><inbound /></policies>',
+        etag: 'etag-2'
+      }
+      mockClient.getOperationPolicy.mockResolvedValue(live)
+
+      const plan = await planPolicyChanges(mockClient, [operationPolicy])
+
+      expect(plan).toEqual([
+        {
+          policy: operationPolicy,
+          action: 'update',
+          live,
+          diff: expect.stringContaining('-  <inbound />')
+        }
+      ])
+      expect(plan[0].diff).toContain('+  <inbound>')
+      expect(mockClient.getOperationPolicy).toHaveBeenCalledWith('api1', 'op1')
+    })
+
+    it('should compare the global policy without listing APIs', async () => {
+      const globalPolicy: PolicyFile = {
+        filePath: '/test/global.xml',
+        scope: 'global',
+        content: '<policies />'
+      }
+      const live = { content: '<policies></policies>', etag: 'g' }
+      mockClient.getServicePolicy.mockResolvedValue(live)
+
+      const plan = await planPolicyChanges(mockClient, [globalPolicy])
+
+      expect(plan).toEqual([
+        { policy: globalPolicy, action: 'unchanged', live }
+      ])
+      expect(mockClient.listApis).not.toHaveBeenCalled()
+    })
+
+    it('should compare product policies and report missing products', async () => {
+      const starter: PolicyFile = {
+        filePath: '/test/products/starter.xml',
+        productId: 'starter',
+        scope: 'product',
+        content: '<policies />'
+      }
+      const gold = { ...starter, productId: 'gold' }
+
+      const plan = await planPolicyChanges(mockClient, [starter, gold])
+
+      expect(plan.map((entry) => entry.action)).toEqual([
+        'create',
+        'missing-target'
+      ])
+      expect(plan[1].reason).toBe("Product 'gold' not found")
+      expect(mockClient.getProductPolicy).toHaveBeenCalledWith('starter')
+      expect(mockClient.listProducts).toHaveBeenCalledTimes(1)
+    })
+
+    it('should plan policy fragments without checking a target', async () => {
+      const fragment: PolicyFile = {
+        filePath: '/test/fragments/auth.xml',
+        fragmentId: 'auth',
+        scope: 'fragment',
+        content: '<fragment />'
+      }
+
+      const plan = await planPolicyChanges(mockClient, [fragment])
+
+      expect(plan.map((entry) => entry.action)).toEqual(['create'])
+      expect(mockClient.getPolicyFragment).toHaveBeenCalledWith('auth')
+      expect(mockClient.listApis).not.toHaveBeenCalled()
+    })
+
+    it('should report missing APIs and operations', async () => {
+      mockClient.listOperations.mockResolvedValue([])
+      const otherApi = { ...apiPolicy, apiId: 'api2' }
+
+      const plan = await planPolicyChanges(mockClient, [
+        otherApi,
+        operationPolicy
+      ])
+
+      expect(plan).toEqual([
+        {
+          policy: otherApi,
+          action: 'missing-target',
+          reason: "API 'api2' not found"
+        },
+        {
+          policy: operationPolicy,
+          action: 'missing-target',
+          reason: "Operation 'op1' not found in API 'api1'"
+        }
+      ])
+    })
+
+    it('should list operations once per API and never update', async () => {
+      const secondOperation = { ...operationPolicy, operationId: 'op2' }
+      mockClient.listOperations.mockResolvedValue(['op1', 'op2'])
+
+      await planPolicyChanges(mockClient, [operationPolicy, secondOperation])
+
+      expect(mockClient.listOperations).toHaveBeenCalledTimes(1)
+      expect(mockClient.updateApiPolicy).not.toHaveBeenCalled()
+      expect(mockClient.updateOperationPolicy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('reportPolicyPlan', () => {
+    it('should log each entry and a summary', () => {
+      reportPolicyPlan([
+        { policy: apiPolicy, action: 'update', diff: '-a\n+b' },
+        {
+          policy: operationPolicy,
+          action: 'missing-target',
+          reason: "Operation 'op1' not found in API 'api1'"
+        }
+      ])
+
+      expect(mockCore.info).toHaveBeenCalledWith('[update] api policy api1')
+      expect(mockCore.startGroup).toHaveBeenCalledWith(
+        'Diff for api policy api1'
+      )
+      expect(mockCore.info).toHaveBeenCalledWith('-a\n+b')
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        "[missing-target] operation policy api1/op1: Operation 'op1' not found in API 'api1'"
+      )
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Plan: 0 to create, 1 to update, 0 unchanged, 1 missing target'
+      )
+    })
+  })
+})
@@ -26,6 +26,7 @@ const {
   loadPolicyManifest,
   discoverPoliciesFromManifest,
   discoverPolicies,
+  listManifestPolicyTargets,
   validatePolicies
 } = await import('../src/policy-discovery.js')
 
@@ -81,7 +82,68 @@ describe('policy-discovery', () => {
       })
     })
 
-    it('should skip invalid XML files', async () => {
+    it('should discover the global policy', async () => {
+      mockGlob.mockResolvedValue([
+        'policies/global.xml',
+        'policies/sample-api/api.xml'
+      ])
+      mockFs.readFile.mockResolvedValue(validApiPolicy)
+
+      const policies = await discoverPoliciesFromDefaultStructure(baseDir)
+
+      expect(policies).toHaveLength(2)
+      expect(policies[0]).toEqual({
+        filePath: expect.stringContaining('global.xml'),
+        scope: 'global',
+        content: validApiPolicy
+      })
+      expect(policies[1].scope).toBe('api')
+    })
+
+    it('should discover product policies', async () => {
+      mockGlob.mockResolvedValue([
+        'policies/products/starter.xml',
+        'policies/products/api.xml'
+      ])
+      mockFs.readFile.mockResolvedValue(validApiPolicy)
+
+      const policies = await discoverPoliciesFromDefaultStructure(baseDir)
+
+      expect(policies).toEqual([
+        {
+          filePath: expect.stringContaining('starter.xml'),
+          productId: 'starter',
+          scope: 'product',
+          content: validApiPolicy
+        },
+        {
+          filePath: expect.stringContaining('products/api.xml'),
+          apiId: 'products',
+          operationId: undefined,
+          scope: 'api',
+          content: validApiPolicy
+        }
+      ])
+    })
+
+    it('should discover policy fragments', async () => {
+      const fragment = '<fragment><base /></fragment>'
+      mockGlob.mockResolvedValue(['policies/fragments/auth.xml'])
+      mockFs.readFile.mockResolvedValue(fragment)
+
+      const policies = await discoverPoliciesFromDefaultStructure(baseDir)
+
+      expect(policies).toEqual([
+        {
+          filePath: expect.stringContaining('fragments/auth.xml'),
+          fragmentId: 'auth',
+          scope: 'fragment',
+          content: fragment
+        }
+      ])
+    })
+
+    it('should keep invalid XML files for validation to report', async () => {
       const mockFiles = ['policies/api1/api.xml', 'policies/api2/api.xml']
 
       mockGlob.mockResolvedValue(mockFiles)
@@ -91,9 +153,42 @@ describe('policy-discovery', () => {
 
       const policies = await discoverPoliciesFromDefaultStructure(baseDir)
 
-      expect(policies).toHaveLength(1)
-      expect(mockCore.warning).toHaveBeenCalledWith(
-        expect.stringContaining('Skipping invalid XML')
+      expect(policies).toHaveLength(2)
+      expect(policies[0].content).toBe('invalid xml content')
+      expect(validatePolicies(policies)).toBe(false)
+    })
+
+    it('should replace template placeholders in policy content', async () => {
+      mockGlob.mockResolvedValue(['policies/api1/api.xml'])
+      mockFs.readFile.mockResolvedValue(
+        '<policies><inbound><set-backend-service base-url="${BACKEND_URL}" /><set-header name="k"><value>{{key}}</value></set-header></inbound></policies>'
+      )
+
+      const policies = await discoverPoliciesFromDefaultStructure(baseDir, {
+        BACKEND_URL: 'https://dev.contoso.com'
+      })
+
+      expect(policies[0].content).toBe(
+        '<policies><inbound><set-backend-service base-url="https://dev.contoso.com" /><set-header name="k"><value>{{key}}</value></set-header></inbound></policies>'
+      )
+      expect(policies[0].unresolvedPlaceholders).toBeUndefined()
+    })
+
+    it('should keep unresolved placeholders for validation to report', async () => {
+      mockGlob.mockResolvedValue(['policies/api1/api.xml'])
+      mockFs.readFile.mockResolvedValue(
+        '<policies>\n  <inbound><rate-limit calls="${APIM_TEST_RATE_LIMIT}" renewal-period="60" /></inbound>\n</policies>'
+      )
+
+      const policies = await discoverPoliciesFromDefaultStructure(baseDir)
+
+      expect(policies[0].unresolvedPlaceholders).toEqual([
+        { name: 'APIM_TEST_RATE_LIMIT', line: 2, column: 31 }
+      ])
+      expect(validatePolicies(policies)).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledWith(
+        `Unresolved template placeholder \${APIM_TEST_RATE_LIMIT} in ${policies[0].filePath} (line 2, column 31): set APIM_TEST_RATE_LIMIT in the template values file or as an environment variable`,
+        { file: policies[0].filePath, startLine: 2, startColumn: 31 }
       )
     })
 
@@ -234,6 +329,136 @@ policies:
       })
     })
 
+    it('should discover the global policy from the manifest', async () => {
+      const manifest = {
+        globalPolicyPath: 'custom/global.xml'
+      }
+
+      mockFs.readFile
+        .mockResolvedValueOnce('manifest content')
+        .mockResolvedValueOnce(validApiPolicy)
+      mockParseYaml.mockReturnValue(manifest)
+
+      const policies = await discoverPoliciesFromManifest(
+        '/test/manifest.yaml',
+        baseDir
+      )
+
+      expect(policies).toEqual([
+        {
+          filePath: expect.stringContaining('custom/global.xml'),
+          scope: 'global',
+          content: validApiPolicy
+        }
+      ])
+    })
+
+    it('should discover product policies from the manifest', async () => {
+      const manifest = {
+        products: {
+          starter: 'custom/starter.xml'
+        }
+      }
+
+      mockFs.readFile
+        .mockResolvedValueOnce('manifest content')
+        .mockResolvedValueOnce(validApiPolicy)
+      mockParseYaml.mockReturnValue(manifest)
+
+      const policies = await discoverPoliciesFromManifest(
+        '/test/manifest.yaml',
+        baseDir
+      )
+
+      expect(policies).toEqual([
+        {
+          filePath: expect.stringContaining('custom/starter.xml'),
+          productId: 'starter',
+          scope: 'product',
+          content: validApiPolicy
+        }
+      ])
+    })
+
+    it('should discover policy fragments from the manifest', async () => {
+      const fragment = '<fragment></fragment>'
+      mockFs.readFile
+        .mockResolvedValueOnce('manifest content')
+        .mockResolvedValueOnce(fragment)
+      mockParseYaml.mockReturnValue({
+        fragments: { auth: 'shared/auth.xml' }
+      })
+
+      const policies = await discoverPoliciesFromManifest(
+        '/test/manifest.yaml',
+        baseDir
+      )
+
+      expect(policies).toEqual([
+        {
+          filePath: expect.stringContaining('shared/auth.xml'),
+          fragmentId: 'auth',
+          scope: 'fragment',
+          content: fragment
+        }
+      ])
+    })
+
+    it('should attach base overrides from the manifest', async () => {
+      mockFs.readFile
+        .mockResolvedValueOnce('manifest content')
+        .mockResolvedValue(validApiPolicy)
+      mockParseYaml.mockReturnValue({
+        policies: {
+          api1: {
+            apiPolicyPath: 'api1/api.xml',
+            operations: { op1: 'api1/op1.xml' }
+          }
+        },
+        baseOverrides: { 'api1/op1': ['inbound'] }
+      })
+
+      const policies = await discoverPoliciesFromManifest(
+        '/test/manifest.yaml',
+        baseDir
+      )
+
+      expect(policies.map((policy) => policy.baseOverrides)).toEqual([
+        undefined,
+        ['inbound']
+      ])
+    })
+
+    it('should apply the policy paths and excluded APIs of an environment', async () => {
+      const manifest = {
+        policies: {
+          api1: { apiPolicyPath: 'api1.xml' },
+          api2: { apiPolicyPath: 'api2.xml' }
+        },
+        environments: {
+          prod: {
+            policyPaths: { api1: 'api1.prod.xml' },
+            excludeApis: ['api2']
+          }
+        }
+      }
+
+      mockFs.readFile
+        .mockResolvedValueOnce('manifest content')
+        .mockResolvedValueOnce(validApiPolicy)
+      mockParseYaml.mockReturnValue(manifest)
+
+      const policies = await discoverPoliciesFromManifest(
+        '/test/manifest.yaml',
+        baseDir,
+        {},
+        'prod'
+      )
+
+      expect(policies).toHaveLength(1)
+      expect(policies[0].filePath).toContain('api1.prod.xml')
+    })
+
     it('should handle missing policy files in manifest', async () => {
       const manifest = {
         policies: {
@@ -259,7 +484,7 @@ policies:
       )
     })
 
-    it('should skip invalid XML in manifest entries', async () => {
+    it('should keep invalid XML in manifest entries for validation to report', async () => {
       const manifest = {
         policies: {
           api1: {
@@ -282,13 +507,53 @@ policies:
         baseDir
       )
 
-      expect(policies).toHaveLength(0)
-      expect(mockCore.warning).toHaveBeenCalledWith(
-        expect.stringContaining('Invalid XML content in API policy')
+      expect(policies.map((policy) => policy.content)).toEqual([
+        'not xml',
+        'not xml either'
+      ])
+      expect(validatePolicies(policies)).toBe(false)
+    })
+  })
+
+  describe('listManifestPolicyTargets', () => {
+    it('should list declared policies even when their file fails to read', async () => {
+      const manifest = {
+        policies: {
+          'orders-api': {
+            apiPolicyPath: 'policies/orders-api/api.xml',
+            operations: {
+              'create-order': 'policies/orders-api/operations/create-ordr.xml'
+            }
+          },
+          'debug-api': {
+            operations: { trace: 'policies/debug-api/trace.xml' }
+          }
+        }
+      }
+      mockParseYaml.mockReturnValue(manifest)
+      mockFs.readFile
+        .mockResolvedValueOnce('manifest')
+        .mockResolvedValueOnce(validApiPolicy)
+        .mockRejectedValueOnce(new Error('ENOENT'))
+        .mockResolvedValueOnce(validOperationPolicy)
+
+      const policies = await discoverPoliciesFromManifest(
+        'manifest.yaml',
+        baseDir
       )
-      expect(mockCore.warning).toHaveBeenCalledWith(
-        expect.stringContaining('Invalid XML content in operation policy')
+
+      expect(policies.map((policy) => policy.operationId)).not.toContain(
+        'create-order'
       )
+      expect(listManifestPolicyTargets(manifest)).toEqual([
+        'orders-api',
+        'orders-api/create-order',
+        'debug-api/trace'
+      ])
+      expect(listManifestPolicyTargets(manifest, ['debug-api'])).toEqual([
+        'orders-api',
+        'orders-api/create-order'
+      ])
     })
   })
 
@@ -304,12 +569,15 @@ policies:
 
       mockFs.readFile
         .mockResolvedValueOnce('manifest content')
-        .mockResolvedValueOnce(validApiPolicy)
+        .mockResolvedValueOnce('<policies calls="${RATE_LIMIT}" />')
       mockParseYaml.mockReturnValue(manifest)
 
-      const policies = await discoverPolicies('/test/manifest.yaml', baseDir)
+      const policies = await discoverPolicies('/test/manifest.yaml', baseDir, {
+        RATE_LIMIT: '10'
+      })
 
       expect(policies).toHaveLength(1)
+      expect(policies[0].content).toBe('<policies calls="10" />')
       expect(mockCore.info).toHaveBeenCalledWith(
         'Using policy manifest for discovery'
       )
@@ -387,6 +655,52 @@ policies:
       )
     })
 
+    it('should detect multiple global policies', () => {
+      const policies = [
+        {
+          filePath: '/test/global-1.xml',
+          scope: 'global' as const,
+          content: validApiPolicy
+        },
+        {
+          filePath: '/test/global-2.xml',
+          scope: 'global' as const,
+          content: validApiPolicy
+        }
+      ]
+
+      const result = validatePolicies(policies)
+
+      expect(result).toBe(false)
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Multiple global policies found'
+      )
+    })
+
+    it('should detect multiple policies for the same product', () => {
+      const policies = [
+        {
+          filePath: '/test/starter-1.xml',
+          productId: 'starter',
+          scope: 'product' as const,
+          content: validApiPolicy
+        },
+        {
+          filePath: '/test/starter-2.xml',
+          productId: 'starter',
+          scope: 'product' as const,
+          content: validApiPolicy
+        }
+      ]
+
+      const result = validatePolicies(policies)
+
+      expect(result).toBe(false)
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Multiple product policies found for starter'
+      )
+    })
+
     it('should detect invalid XML content', () => {
       const policies = [
         {
@@ -401,7 +715,44 @@ policies:
 
       expect(result).toBe(false)
       expect(mockCore.error).toHaveBeenCalledWith(
-        expect.stringContaining('Invalid XML content')
+        expect.stringContaining('Invalid XML content'),
+        expect.anything()
+      )
+    })
+
+    it('should fail when a lint rule with error severity is violated', () => {
+      const policies = [
+        {
+          filePath: '/test/api1.xml',
+          apiId: 'api1',
+          scope: 'api' as const,
+          content: '<policies><inbound /></policies>'
+        }
+      ]
+
+      expect(validatePolicies(policies)).toBe(true)
+      expect(
+        validatePolicies(policies, {
+          rules: [{ rule: 'require-base', severity: 'error' }]
+        })
+      ).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledWith('Policy lint failed')
+    })
+
+    it('should report the file, line, column and reason of XML errors', () => {
+      const result = validatePolicies([
+        {
+          filePath: '/test/api1/api.xml',
+          apiId: 'api1',
+          scope: 'api' as const,
+          content: '<policies>\n  <inbound>\n</policies>'
+        }
+      ])
+
+      expect(result).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledWith(
+        'Invalid XML content in policy: /test/api1/api.xml (line 3, column 1): Expected </inbound> but found </policies>',
+        { file: '/test/api1/api.xml', startLine: 3, startColumn: 1 }
       )
     })
   })
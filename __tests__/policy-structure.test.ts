@@ -0,0 +1,194 @@
+import { jest } from '@jest/globals'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const {
+  findPolicyStructureErrors,
+  validatePolicyStructure,
+  validateBaseInheritance
+} = await import('../src/policy-structure.js')
+
+describe('policy-structure', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('findPolicyStructureErrors', () => {
+    it('should accept a policy with all sections in order', () => {
+      expect(
+        findPolicyStructureErrors(`<policies>
+  <inbound>
+    <base />
+    <choose>
+      <when condition="@(true)">
+        <rate-limit calls="10" renewal-period="60" />
+      </when>
+    </choose>
+  </inbound>
+  <backend>
+    <retry condition="@(false)" count="3" interval="1">
+      <forward-request />
+    </retry>
+  </backend>
+  <outbound>
+    <send-request mode="new" response-variable-name="r">
+      <set-method>POST</set-method>
+    </send-request>
+  </outbound>
+  <on-error>
+    <set-status code="500" />
+  </on-error>
+</policies>`)
+      ).toEqual([])
+    })
+
+    it('should report unknown, duplicate and misordered sections', () => {
+      expect(
+        findPolicyStructureErrors(`<policies>
+  <outbound />
+  <inbound />
+  <inbound />
+  <request />
+</policies>`)
+      ).toEqual([
+        {
+          path: 'policies/inbound',
+          reason: 'Section <inbound> must come before <outbound>',
+          line: 3,
+          column: 3
+        },
+        {
+          path: 'policies/inbound',
+          reason: 'Duplicate section <inbound>',
+          line: 4,
+          column: 3
+        },
+        {
+          path: 'policies/request',
+          reason:
+            'Unknown section <request>, expected one of inbound, backend, outbound, on-error',
+          line: 5,
+          column: 3
+        }
+      ])
+    })
+
+    it('should report policy elements in sections where they are not allowed', () => {
+      const errors = findPolicyStructureErrors(`<policies>
+  <inbound>
+    <choose>
+      <otherwise>
+        <forward-request />
+      </otherwise>
+    </choose>
+  </inbound>
+  <outbound>
+    <validate-jwt header-name="Authorization" />
+  </outbound>
+</policies>`)
+
+      expect(errors.map((error) => [error.path, error.reason])).toEqual([
+        [
+          'policies/inbound/choose/otherwise/forward-request',
+          '<forward-request> is not allowed in the inbound section (allowed in backend)'
+        ],
+        [
+          'policies/outbound/validate-jwt',
+          '<validate-jwt> is not allowed in the outbound section (allowed in inbound)'
+        ]
+      ])
+    })
+
+    it('should ignore content that is not well-formed', () => {
+      expect(findPolicyStructureErrors('<policies>')).toEqual([])
+    })
+  })
+
+  describe('validatePolicyStructure', () => {
+    it('should report errors with the file and element path', () => {
+      const result = validatePolicyStructure([
+        {
+          filePath: '/test/api1/api.xml',
+          apiId: 'api1',
+          scope: 'api',
+          content:
+            '<policies>\n  <inbound><forward-request /></inbound>\n</policies>'
+        },
+        {
+          filePath: '/test/fragments/auth.xml',
+          fragmentId: 'auth',
+          scope: 'fragment',
+          content: '<fragment><forward-request /></fragment>'
+        }
+      ])
+
+      expect(result).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledTimes(1)
+      expect(mockCore.error).toHaveBeenCalledWith(
+        'Invalid policy structure in /test/api1/api.xml at policies/inbound/forward-request: <forward-request> is not allowed in the inbound section (allowed in backend)',
+        { file: '/test/api1/api.xml', startLine: 2, startColumn: 12 }
+      )
+    })
+  })
+
+  describe('validateBaseInheritance', () => {
+    const operationPolicy = {
+      filePath: '/test/api1/operations/op1.xml',
+      apiId: 'api1',
+      operationId: 'op1',
+      scope: 'operation' as const,
+      content: `<policies>
+  <inbound>
+    <set-header name="x" />
+  </inbound>
+  <outbound>
+    <base />
+  </outbound>
+</policies>`
+    }
+
+    it('should flag API and operation sections without <base />', () => {
+      const result = validateBaseInheritance([
+        operationPolicy,
+        {
+          filePath: '/test/global.xml',
+          scope: 'global',
+          content: '<policies><inbound /></policies>'
+        }
+      ])
+
+      expect(result).toBe(false)
+      expect(mockCore.error).toHaveBeenCalledTimes(1)
+      expect(mockCore.error).toHaveBeenCalledWith(
+        "Missing <base /> in /test/api1/operations/op1.xml at policies/inbound: the inbound policies of the parent scopes do not apply to operation policy api1/op1. Add <base /> or list the section in the manifest's baseOverrides.",
+        {
+          file: '/test/api1/operations/op1.xml',
+          startLine: 2,
+          startColumn: 3
+        }
+      )
+    })
+
+    it('should allow and report sections listed in baseOverrides', () => {
+      const result = validateBaseInheritance([
+        { ...operationPolicy, baseOverrides: ['inbound', 'outbound'] }
+      ])
+
+      expect(result).toBe(true)
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Allowed missing <base /> in inbound of operation policy api1/op1 (manifest baseOverrides)'
+      )
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'baseOverrides for operation policy api1/op1 lists outbound, but the section contains <base />'
+      )
+    })
+  })
+})
@@ -0,0 +1,271 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import type { PolicyFile } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn(),
+  debug: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const {
+  BASE_ONLY_POLICY,
+  findUnmanagedPolicies,
+  findPrunablePolicies,
+  prunePolicies
+} = await import('../src/prune.js')
+
+describe('prune', () => {
+  const livePolicy = {
+    content: '<policies><inbound><base /><cors /></inbound></policies>',
+    etag: 'etag-1'
+  }
+  const operationPolicy: PolicyFile = {
+    filePath: 'policies/users-api/operations/get-user.xml',
+    apiId: 'users-api',
+    operationId: 'get-user',
+    scope: 'operation',
+    content: '<policies><inbound><base /></inbound></policies>'
+  }
+
+  let mockClient: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockClient = {
+      listOperations: jest.fn(async (apiId: string) =>
+        apiId === 'users-api' ? ['get-user', 'delete-user'] : ['get-order']
+      ),
+      getApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue(livePolicy),
+      getOperationPolicy: jest
+        .fn<() => Promise<any>>()
+        .mockResolvedValue(livePolicy),
+      deleteApiPolicy: jest.fn(async (apiId: string) => ({
+        scope: 'api',
+        apiId,
+        action: 'deleted',
+        pruned: true
+      })),
+      deleteOperationPolicy: jest.fn(
+        async (apiId: string, operationId: string) => ({
+          scope: 'operation',
+          apiId,
+          operationId,
+          action: 'deleted',
+          pruned: operationId !== 'fails',
+          error: operationId === 'fails' ? 'Forbidden' : undefined
+        })
+      ),
+      updateApiPolicy: jest
+        .fn<() => Promise<any>>()
+        .mockResolvedValue({ scope: 'api', updated: true, status: 'updated' }),
+      updateOperationPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+        scope: 'operation',
+        updated: true,
+        status: 'updated'
+      })
+    }
+  })
+
+  describe('findUnmanagedPolicies', () => {
+    it('should find live policies of the APIs without a file', async () => {
+      const unmanaged = await findUnmanagedPolicies(
+        mockClient,
+        [operationPolicy],
+        ['users-api']
+      )
+
+      expect(unmanaged).toEqual([
+        { scope: 'api', apiId: 'users-api', live: livePolicy },
+        {
+          scope: 'operation',
+          apiId: 'users-api',
+          operationId: 'delete-user',
+          live: livePolicy
+        }
+      ])
+      expect(mockClient.getOperationPolicy).not.toHaveBeenCalledWith(
+        'users-api',
+        'get-user'
+      )
+    })
+
+    it('should skip APIs and operations without a live policy', async () => {
+      mockClient.getApiPolicy.mockResolvedValue(null)
+      mockClient.getOperationPolicy.mockResolvedValue(null)
+
+      const unmanaged = await findUnmanagedPolicies(
+        mockClient,
+        [],
+        ['users-api']
+      )
+
+      expect(unmanaged).toEqual([])
+    })
+  })
+
+  describe('findPrunablePolicies', () => {
+    it('should only prune APIs that have a policy file', async () => {
+      const prunable = await findPrunablePolicies(
+        mockClient,
+        [operationPolicy],
+        ['users-api', 'orders-api'],
+        'delete'
+      )
+
+      expect(prunable.map((policy) => policy.apiId)).toEqual([
+        'users-api',
+        'users-api'
+      ])
+      expect(mockClient.listOperations).not.toHaveBeenCalledWith('orders-api')
+    })
+
+    it('should skip owned APIs that do not exist in the service', async () => {
+      const prunable = await findPrunablePolicies(
+        mockClient,
+        [operationPolicy],
+        ['orders-api'],
+        'delete'
+      )
+
+      expect(prunable).toEqual([])
+      expect(mockClient.listOperations).not.toHaveBeenCalled()
+    })
+
+    it('should skip policies that were already reset', async () => {
+      mockClient.getApiPolicy.mockResolvedValue({
+        content: BASE_ONLY_POLICY.replace(/\n\s*/g, '')
+      })
+
+      const prunable = await findPrunablePolicies(
+        mockClient,
+        [operationPolicy],
+        ['users-api'],
+        'reset'
+      )
+
+      expect(prunable).toEqual([
+        expect.objectContaining({
+          scope: 'operation',
+          operationId: 'delete-user'
+        })
+      ])
+    })
+
+    it('should not prune declared policies whose file failed to read', async () => {
+      // The manifest declares delete-user, but its file could not be read
+      const prunable = await findPrunablePolicies(
+        mockClient,
+        [operationPolicy],
+        ['users-api'],
+        'delete',
+        ['users-api/get-user', 'users-api/delete-user']
+      )
+
+      expect(prunable).toEqual([
+        { scope: 'api', apiId: 'users-api', live: livePolicy }
+      ])
+      expect(mockClient.getOperationPolicy).not.toHaveBeenCalled()
+    })
+
+    it('should own APIs whose declared files all failed to read', async () => {
+      const prunable = await findPrunablePolicies(
+        mockClient,
+        [],
+        ['users-api'],
+        'delete',
+        ['users-api/get-user']
+      )
+
+      expect(prunable).toEqual([
+        { scope: 'api', apiId: 'users-api', live: livePolicy },
+        {
+          scope: 'operation',
+          apiId: 'users-api',
+          operationId: 'delete-user',
+          live: livePolicy
+        }
+      ])
+    })
+
+    it('should not list anything when pruning is disabled', async () => {
+      const prunable = await findPrunablePolicies(
+        mockClient,
+        [operationPolicy],
+        ['users-api'],
+        'none'
+      )
+
+      expect(prunable).toEqual([])
+      expect(mockClient.listOperations).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('prunePolicies', () => {
+    it('should delete policies and report failures', async () => {
+      const results = await prunePolicies(
+        mockClient,
+        [
+          { scope: 'api', apiId: 'users-api', live: livePolicy },
+          {
+            scope: 'operation',
+            apiId: 'users-api',
+            operationId: 'fails',
+            live: livePolicy
+          }
+        ],
+        'delete'
+      )
+
+      expect(results).toEqual([
+        { scope: 'api', apiId: 'users-api', action: 'deleted', pruned: true },
+        {
+          scope: 'operation',
+          apiId: 'users-api',
+          operationId: 'fails',
+          action: 'deleted',
+          pruned: false,
+          error: 'Forbidden'
+        }
+      ])
+      expect(mockCore.info).toHaveBeenCalledWith(
+        'Deleted api policy users-api, which has no policy file'
+      )
+    })
+
+    it('should reset policies to <base /> only', async () => {
+      const results = await prunePolicies(
+        mockClient,
+        [
+          {
+            scope: 'operation',
+            apiId: 'users-api',
+            operationId: 'delete-user',
+            live: livePolicy
+          }
+        ],
+        'reset'
+      )
+
+      expect(mockClient.updateOperationPolicy).toHaveBeenCalledWith(
+        'users-api',
+        'delete-user',
+        BASE_ONLY_POLICY
+      )
+      expect(mockClient.deleteOperationPolicy).not.toHaveBeenCalled()
+      expect(results).toEqual([
+        {
+          scope: 'operation',
+          apiId: 'users-api',
+          operationId: 'delete-user',
+          action: 'reset',
+          pruned: true
+        }
+      ])
+    })
+  })
+})
@@ -0,0 +1,224 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import type { PolicySnapshotEntry } from '../src/types.js'
+
+// Mock external dependencies
+const mockCore = {
+  info: jest.fn(),
+  debug: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn(),
+  startGroup: jest.fn(),
+  endGroup: jest.fn()
+}
+
+const mockFs = {
+  readFile: jest.fn<() => Promise<string>>()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+jest.unstable_mockModule('fs/promises', () => mockFs)
+
+// Import after mocking
+const { loadSnapshot, selectSnapshotPolicies, restoreSnapshot } = await import(
+  '../src/restore.js'
+)
+
+describe('restore', () => {
+  const apiEntry: PolicySnapshotEntry = {
+    scope: 'api',
+    apiId: 'users-api',
+    content: '<policies><inbound><base /></inbound></policies>'
+  }
+  const operationEntry: PolicySnapshotEntry = {
+    scope: 'operation',
+    apiId: 'users-api',
+    operationId: 'get-user',
+    content: null
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('loadSnapshot', () => {
+    it('should load a valid snapshot', async () => {
+      const snapshot = {
+        createdAt: '2024-01-01T00:00:00.000Z',
+        policies: [apiEntry, operationEntry]
+      }
+      mockFs.readFile.mockResolvedValue(JSON.stringify(snapshot))
+
+      await expect(loadSnapshot('snapshot.json')).resolves.toEqual(snapshot)
+    })
+
+    it('should throw when the file cannot be read', async () => {
+      mockFs.readFile.mockRejectedValue(new Error('ENOENT'))
+
+      await expect(loadSnapshot('snapshot.json')).rejects.toThrow(
+        'Failed to read snapshot: ENOENT'
+      )
+    })
+
+    it('should throw for a snapshot without policies', async () => {
+      mockFs.readFile.mockResolvedValue('{"createdAt": "now"}')
+
+      await expect(loadSnapshot('snapshot.json')).rejects.toThrow(
+        'Invalid snapshot format: missing policies list'
+      )
+    })
+
+    it('should throw for invalid entries', async () => {
+      mockFs.readFile.mockResolvedValue(
+        JSON.stringify({
+          policies: [apiEntry, { scope: 'operation', apiId: 'users-api' }]
+        })
+      )
+
+      await expect(loadSnapshot('snapshot.json')).rejects.toThrow(
+        'Snapshot policy 2: operation policies must have an operationId'
+      )
+    })
+  })
+
+  describe('selectSnapshotPolicies', () => {
+    const entries: PolicySnapshotEntry[] = [
+      { scope: 'global', content: '<policies />' },
+      apiEntry,
+      { ...apiEntry, apiId: 'orders-api', target: 'apim-eus' },
+      { ...apiEntry, apiId: 'billing-api', target: 'apim-weu' }
+    ]
+
+    it('should select the entries of the target', () => {
+      expect(
+        selectSnapshotPolicies(entries, 'apim-weu').map((entry) => entry.apiId)
+      ).toEqual([undefined, 'users-api', 'billing-api'])
+    })
+
+    it('should only select policies of the given APIs', () => {
+      expect(
+        selectSnapshotPolicies(entries, 'apim-eus', ['orders-api', 'x'])
+      ).toEqual([entries[2]])
+    })
+  })
+
+  describe('restoreSnapshot', () => {
+    let mockClient: any
+
+    beforeEach(() => {
+      mockClient = {
+        listApis: jest
+          .fn<() => Promise<string[]>>()
+          .mockResolvedValue(['users-api']),
+        listOperations: jest
+          .fn<() => Promise<string[]>>()
+          .mockResolvedValue(['get-user']),
+        getApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+          content: '<policies><inbound><cors /></inbound></policies>',
+          etag: 'etag-1'
+        }),
+        getOperationPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+          content: '<policies />',
+          etag: 'etag-2'
+        }),
+        updateApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+          scope: 'api',
+          apiId: 'users-api',
+          updated: true,
+          status: 'updated'
+        }),
+        deleteOperationPolicy: jest
+          .fn<() => Promise<any>>()
+          .mockResolvedValue({ pruned: true })
+      }
+    })
+
+    it('should restore changed policies and delete policies that did not exist', async () => {
+      const results = await restoreSnapshot(
+        mockClient,
+        [apiEntry, operationEntry],
+        'snapshot.json'
+      )
+
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledWith(
+        'users-api',
+        apiEntry.content
+      )
+      expect(mockClient.deleteOperationPolicy).toHaveBeenCalledWith(
+        'users-api',
+        'get-user'
+      )
+      expect(results).toEqual([
+        expect.objectContaining({
+          scope: 'api',
+          apiId: 'users-api',
+          status: 'updated'
+        }),
+        expect.objectContaining({
+          scope: 'operation',
+          operationId: 'get-user',
+          status: 'updated'
+        })
+      ])
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '[update] api policy users-api'
+      )
+      expect(mockCore.info).toHaveBeenCalledWith(
+        '[delete] operation policy users-api/get-user'
+      )
+    })
+
+    it('should skip policies that already match the snapshot', async () => {
+      mockClient.getApiPolicy.mockResolvedValue({
+        content: apiEntry.content,
+        etag: 'etag-1'
+      })
+      mockClient.getOperationPolicy.mockResolvedValue(null)
+
+      const results = await restoreSnapshot(
+        mockClient,
+        [apiEntry, operationEntry],
+        'snapshot.json'
+      )
+
+      expect(mockClient.updateApiPolicy).not.toHaveBeenCalled()
+      expect(mockClient.deleteOperationPolicy).not.toHaveBeenCalled()
+      expect(results).toEqual([
+        expect.objectContaining({ status: 'unchanged', etag: 'etag-1' })
+      ])
+    })
+
+    it('should only report the changes in dry run mode', async () => {
+      const results = await restoreSnapshot(
+        mockClient,
+        [apiEntry, operationEntry],
+        'snapshot.json',
+        true
+      )
+
+      expect(results).toEqual([])
+      expect(mockClient.updateApiPolicy).not.toHaveBeenCalled()
+      expect(mockClient.deleteOperationPolicy).not.toHaveBeenCalled()
+      expect(mockCore.startGroup).toHaveBeenCalledWith(
+        'Diff for api policy users-api'
+      )
+    })
+
+    it('should fail policies whose target is missing', async () => {
+      mockClient.listApis.mockResolvedValue([])
+
+      const results = await restoreSnapshot(
+        mockClient,
+        [apiEntry],
+        'snapshot.json'
+      )
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          status: 'failed',
+          error: "API 'users-api' not found"
+        })
+      ])
+    })
+  })
+})
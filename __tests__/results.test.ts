@@ -0,0 +1,108 @@
+import { jest } from '@jest/globals'
+import type { PolicyUpdateResult } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn(),
+  warning: jest.fn(),
+  setOutput: jest.fn()
+}
+
+// Mock fs/promises
+const mockFs = {
+  writeFile: jest.fn<() => Promise<void>>()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+jest.unstable_mockModule('fs/promises', () => mockFs)
+
+// Import after mocking
+const { countResults, setResultOutputs } = await import('../src/results.js')
+
+describe('results', () => {
+  const results: PolicyUpdateResult[] = [
+    {
+      scope: 'api',
+      apiId: 'api1',
+      updated: true,
+      status: 'updated',
+      etag: 'e'
+    },
+    { scope: 'global', updated: false, status: 'unchanged' },
+    {
+      scope: 'operation',
+      apiId: 'api1',
+      operationId: 'op1',
+      updated: false,
+      status: 'failed',
+      error: 'Bad request'
+    },
+    {
+      scope: 'api',
+      apiId: 'api2',
+      updated: false,
+      status: 'conflict',
+      error: 'The live policy was changed after it was compared (ETag mismatch)'
+    }
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.RUNNER_TEMP = '/runner/temp'
+  })
+
+  afterEach(() => {
+    delete process.env.RUNNER_TEMP
+  })
+
+  describe('countResults', () => {
+    it('should count results by status', () => {
+      expect(countResults(results)).toEqual({
+        updated: 1,
+        unchanged: 1,
+        failed: 1,
+        skipped: 0,
+        conflict: 1
+      })
+    })
+  })
+
+  describe('setResultOutputs', () => {
+    it('should set the results, counts and results file outputs', async () => {
+      mockFs.writeFile.mockResolvedValue()
+
+      await setResultOutputs(results)
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'results',
+        JSON.stringify(results)
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('updated_count', 1)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('unchanged_count', 1)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('failed_count', 1)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('skipped_count', 0)
+      expect(mockCore.setOutput).toHaveBeenCalledWith('conflict_count', 1)
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/runner[/\\]temp[/\\]apim-policy-results\.json$/),
+        `${JSON.stringify(results, null, 2)}\n`,
+        'utf-8'
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith(
+        'results_file',
+        expect.stringContaining('apim-policy-results.json')
+      )
+    })
+
+    it('should warn and leave the results file empty when writing fails', async () => {
+      mockFs.writeFile.mockRejectedValue(new Error('Disk full'))
+
+      await setResultOutputs([])
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to write results file: Disk full'
+      )
+      expect(mockCore.setOutput).toHaveBeenCalledWith('results_file', '')
+      expect(mockCore.setOutput).toHaveBeenCalledWith('results', '[]')
+    })
+  })
+})
@@ -0,0 +1,220 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import * as path from 'path'
+import type { PolicyFile, PolicyUpdateResult } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+}
+
+// Mock fs/promises
+const mockFs = {
+  writeFile: jest.fn<() => Promise<void>>()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+jest.unstable_mockModule('fs/promises', () => mockFs)
+
+// Import after mocking
+const { createSnapshotEntries, writeSnapshotFile, rollbackPolicies } =
+  await import('../src/snapshot.js')
+
+describe('snapshot', () => {
+  const apiPolicy: PolicyFile = {
+    filePath: '/test/api1/api.xml',
+    apiId: 'api1',
+    scope: 'api',
+    content: '<policies />'
+  }
+  const operationPolicy: PolicyFile = {
+    filePath: '/test/api1/operations/op1.xml',
+    apiId: 'api1',
+    operationId: 'op1',
+    scope: 'operation',
+    content: '<policies />'
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.RUNNER_TEMP = '/runner/temp'
+  })
+
+  afterEach(() => {
+    delete process.env.RUNNER_TEMP
+  })
+
+  describe('createSnapshotEntries', () => {
+    it('should record the live policy of every deployed policy file', () => {
+      const entries = createSnapshotEntries([
+        {
+          policy: apiPolicy,
+          action: 'update',
+          live: { content: '<old />', etag: 'etag-1' }
+        },
+        { policy: operationPolicy, action: 'create' },
+        {
+          policy: { ...apiPolicy, apiId: 'missing' },
+          action: 'missing-target',
+          reason: "API 'missing' not found"
+        }
+      ])
+
+      expect(entries).toEqual([
+        { scope: 'api', apiId: 'api1', content: '<old />', etag: 'etag-1' },
+        {
+          scope: 'operation',
+          apiId: 'api1',
+          operationId: 'op1',
+          content: null
+        }
+      ])
+    })
+  })
+
+  describe('writeSnapshotFile', () => {
+    it('should write the snapshot to the runner temp directory', async () => {
+      mockFs.writeFile.mockResolvedValue(undefined)
+      const snapshot = {
+        createdAt: '2024-01-01T00:00:00.000Z',
+        policies: [{ scope: 'global' as const, content: '<policies />' }]
+      }
+
+      const snapshotFile = await writeSnapshotFile(snapshot)
+
+      const expectedPath = path.join(
+        '/runner/temp',
+        'apim-policy-snapshot.json'
+      )
+      expect(snapshotFile).toBe(expectedPath)
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        expectedPath,
+        `${JSON.stringify(snapshot, null, 2)}\n`,
+        'utf-8'
+      )
+    })
+
+    it('should warn and return an empty path when writing fails', async () => {
+      mockFs.writeFile.mockRejectedValue(new Error('EACCES'))
+
+      const snapshotFile = await writeSnapshotFile({
+        createdAt: '2024-01-01T00:00:00.000Z',
+        policies: []
+      })
+
+      expect(snapshotFile).toBe('')
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to write snapshot file: EACCES'
+      )
+    })
+  })
+
+  describe('rollbackPolicies', () => {
+    let mockClient: any
+
+    beforeEach(() => {
+      mockClient = {
+        updateApiPolicy: jest.fn<() => Promise<any>>().mockResolvedValue({
+          scope: 'api',
+          updated: true,
+          status: 'updated'
+        }),
+        updateServicePolicy: jest.fn(),
+        deleteOperationPolicy: jest
+          .fn<() => Promise<any>>()
+          .mockResolvedValue({ pruned: true })
+      }
+    })
+
+    it('should restore updated policies and delete created ones in reverse order', async () => {
+      const results: PolicyUpdateResult[] = [
+        { scope: 'api', apiId: 'api1', updated: true, status: 'updated' },
+        {
+          scope: 'operation',
+          apiId: 'api1',
+          operationId: 'op1',
+          updated: true,
+          status: 'updated'
+        },
+        {
+          scope: 'api',
+          apiId: 'api2',
+          updated: false,
+          status: 'failed',
+          error: 'Bad request'
+        }
+      ]
+
+      const rolledBack = await rollbackPolicies(
+        mockClient,
+        [
+          { scope: 'api', apiId: 'api1', content: '<old />' },
+          {
+            scope: 'operation',
+            apiId: 'api1',
+            operationId: 'op1',
+            content: null
+          },
+          { scope: 'api', apiId: 'api2', content: '<old-2 />' }
+        ],
+        results
+      )
+
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledTimes(1)
+      expect(mockClient.updateApiPolicy).toHaveBeenCalledWith('api1', '<old />')
+      expect(mockClient.deleteOperationPolicy).toHaveBeenCalledWith(
+        'api1',
+        'op1'
+      )
+      expect(
+        mockClient.deleteOperationPolicy.mock.invocationCallOrder[0]
+      ).toBeLessThan(mockClient.updateApiPolicy.mock.invocationCallOrder[0])
+      expect(rolledBack).toEqual([
+        { ...results[0], rolledBack: true },
+        { ...results[1], rolledBack: true },
+        results[2]
+      ])
+    })
+
+    it('should report policies that cannot be restored', async () => {
+      mockClient.updateApiPolicy.mockResolvedValue({
+        scope: 'api',
+        updated: false,
+        status: 'failed',
+        error: 'Conflict'
+      })
+
+      const rolledBack = await rollbackPolicies(
+        mockClient,
+        [
+          { scope: 'global', content: null },
+          { scope: 'api', apiId: 'api1', content: '<old />' }
+        ],
+        [
+          { scope: 'global', updated: true, status: 'updated' },
+          { scope: 'api', apiId: 'api1', updated: true, status: 'updated' }
+        ]
+      )
+
+      expect(mockClient.updateServicePolicy).not.toHaveBeenCalled()
+      expect(rolledBack).toEqual([
+        expect.objectContaining({
+          scope: 'global',
+          rolledBack: false,
+          error:
+            'Rollback failed: The global policy did not exist before and cannot be deleted'
+        }),
+        expect.objectContaining({
+          apiId: 'api1',
+          rolledBack: false,
+          error: 'Rollback failed: Conflict'
+        })
+      ])
+      expect(mockCore.error).toHaveBeenCalledWith(
+        'Failed to roll back api policy api1: Conflict'
+      )
+    })
+  })
+})
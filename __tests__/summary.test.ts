@@ -0,0 +1,229 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest } from '@jest/globals'
+import type { PolicyPlanEntry } from '../src/types.js'
+
+// Mock @actions/core with a chainable summary
+const mockSummary: any = {
+  addHeading: jest.fn(() => mockSummary),
+  addRaw: jest.fn(() => mockSummary),
+  addCodeBlock: jest.fn(() => mockSummary),
+  addTable: jest.fn(() => mockSummary),
+  addList: jest.fn(() => mockSummary),
+  write: jest.fn<() => Promise<any>>()
+}
+const mockCore = {
+  warning: jest.fn(),
+  summary: mockSummary
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const { writePlanSummary, writeDeploymentSummary, writeDriftSummary } =
+  await import('../src/summary.js')
+
+describe('summary', () => {
+  const policy = {
+    filePath: '/test/api1/api.xml',
+    apiId: 'api1',
+    scope: 'api' as const,
+    content: '<policies />'
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSummary.write.mockResolvedValue(mockSummary)
+  })
+
+  describe('writePlanSummary', () => {
+    it('should write an escaped diff per changed policy', async () => {
+      const entries: PolicyPlanEntry[] = [
+        { policy, action: 'update', diff: '-<a />\n+<b />' },
+        { policy: { ...policy, apiId: 'api2' }, action: 'unchanged' }
+      ]
+
+      await writePlanSummary(entries)
+
+      expect(mockSummary.addHeading).toHaveBeenCalledWith(
+        'update: api policy api1',
+        3
+      )
+      expect(mockSummary.addCodeBlock).toHaveBeenCalledTimes(1)
+      expect(mockSummary.addCodeBlock).toHaveBeenCalledWith(
+        '-&lt;a /&gt;\n+&lt;b /&gt;',
+        'diff'
+      )
+      expect(mockSummary.write).toHaveBeenCalled()
+    })
+
+    it('should note when nothing changes', async () => {
+      await writePlanSummary([{ policy, action: 'unchanged' }])
+
+      expect(mockSummary.addRaw).toHaveBeenCalledWith(
+        'No policy changes.',
+        true
+      )
+    })
+
+    it('should name the target when deploying to several targets', async () => {
+      await writePlanSummary([], 'apim-weu')
+
+      expect(mockSummary.addHeading).toHaveBeenCalledWith(
+        'APIM policy changes: apim-weu',
+        2
+      )
+    })
+
+    it('should warn instead of failing when the summary cannot be written', async () => {
+      mockSummary.write.mockRejectedValue(new Error('No summary file'))
+
+      await writePlanSummary([])
+
+      expect(mockCore.warning).toHaveBeenCalledWith(
+        'Failed to write job summary: No summary file'
+      )
+    })
+  })
+
+  describe('writeDeploymentSummary', () => {
+    it('should write a row per policy, totals and missing APIs', async () => {
+      const operationPolicy = {
+        filePath: `${process.cwd()}/policies/api2/operations/op1.xml`,
+        apiId: 'api2',
+        operationId: 'op1',
+        scope: 'operation' as const,
+        content: '<policies />'
+      }
+      const productPolicy = {
+        filePath: `${process.cwd()}/policies/products/starter.xml`,
+        productId: 'starter',
+        scope: 'product' as const,
+        content: '<policies />'
+      }
+
+      await writeDeploymentSummary(
+        [
+          {
+            policy: operationPolicy,
+            result: {
+              scope: 'operation',
+              apiId: 'api2',
+              operationId: 'op1',
+              updated: false,
+              status: 'failed',
+              error: "API 'api2' not found. Available APIs: <none>"
+            }
+          },
+          {
+            policy: productPolicy,
+            result: {
+              scope: 'product',
+              productId: 'starter',
+              updated: true,
+              status: 'updated',
+              etag: 'etag-p'
+            }
+          }
+        ],
+        ['api1']
+      )
+
+      const [rows] = mockSummary.addTable.mock.calls[0] as any[]
+      expect(rows).toHaveLength(3)
+      expect(rows[0][0]).toEqual({ data: 'Scope', header: true })
+      expect(rows[1]).toEqual([
+        'operation',
+        'api2',
+        'op1',
+        'policies/api2/operations/op1.xml',
+        'failed',
+        '',
+        "API 'api2' not found. Available APIs: &lt;none&gt;"
+      ])
+      expect(rows[2]).toEqual([
+        'product: starter',
+        '',
+        '',
+        'policies/products/starter.xml',
+        'updated',
+        'etag-p',
+        ''
+      ])
+      expect(mockSummary.addRaw).toHaveBeenCalledWith(
+        'Totals: 1 updated, 0 unchanged, 1 failed, 0 skipped, 0 conflicts',
+        true
+      )
+      expect(mockSummary.addList).toHaveBeenCalledWith(['api2'])
+      expect(mockSummary.write).toHaveBeenCalled()
+    })
+
+    it('should not list missing APIs when all exist', async () => {
+      await writeDeploymentSummary(
+        [
+          {
+            policy,
+            result: { scope: 'api', updated: false, status: 'unchanged' }
+          }
+        ],
+        ['api1']
+      )
+
+      expect(mockSummary.addList).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('writeDriftSummary', () => {
+    it('should write a row per drifted policy and the diffs', async () => {
+      await writeDriftSummary(
+        [
+          {
+            kind: 'differs',
+            scope: 'api',
+            apiId: 'api1',
+            filePath: 'policies/api1/api.xml',
+            diff: '-<a />\n+<b />'
+          },
+          {
+            kind: 'live-only',
+            scope: 'operation',
+            apiId: 'api1',
+            operationId: 'op1'
+          }
+        ],
+        'apim-weu'
+      )
+
+      expect(mockSummary.addHeading).toHaveBeenCalledWith(
+        'APIM policy drift: apim-weu',
+        2
+      )
+      const [[header, ...rows]] = mockSummary.addTable.mock.calls[0]
+      expect(header.map((cell: any) => cell.data)).toEqual([
+        'Drift',
+        'Scope',
+        'Target',
+        'File',
+        'Reason'
+      ])
+      expect(rows).toEqual([
+        ['differs', 'api', 'api1', 'policies/api1/api.xml', ''],
+        ['live-only', 'operation', 'api1/op1', '', '']
+      ])
+      expect(mockSummary.addCodeBlock).toHaveBeenCalledTimes(1)
+      expect(mockSummary.addCodeBlock).toHaveBeenCalledWith(
+        '-&lt;a /&gt;\n+&lt;b /&gt;',
+        'diff'
+      )
+    })
+
+    it('should note when nothing drifted', async () => {
+      await writeDriftSummary([])
+
+      expect(mockSummary.addRaw).toHaveBeenCalledWith(
+        'No drift detected.',
+        true
+      )
+      expect(mockSummary.addTable).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import { jest } from '@jest/globals'
+import type { ApimConfig } from '../src/types.js'
+
+// Mock @actions/core
+const mockCore = {
+  info: jest.fn()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+// Import after mocking
+const { resolveTargets, selectEnvironmentTargets } = await import(
+  '../src/targets.js'
+)
+
+describe('targets', () => {
+  const config: ApimConfig = {
+    subscriptionId: 'input-subscription',
+    resourceGroupName: 'input-rg',
+    serviceName: 'input-apim'
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should deploy to the configured service without targets', () => {
+    expect(resolveTargets(config)).toEqual([{ name: 'input-apim', config }])
+    expect(resolveTargets(config, [])).toEqual([{ name: 'input-apim', config }])
+  })
+
+  it('should require the inputs without targets', () => {
+    expect(() => resolveTargets({ ...config, serviceName: '' })).toThrow(
+      'apim_name input is required'
+    )
+    expect(() =>
+      resolveTargets({ ...config, serviceName: '', environment: 'prod' })
+    ).toThrow(
+      'apim_name input is required when environment prod has no serviceName'
+    )
+  })
+
+  it('should default manifest targets to the configured subscription and resource group', () => {
+    const targets = resolveTargets(config, [
+      { serviceName: 'apim-weu' },
+      {
+        name: 'us',
+        subscriptionId: 'us-subscription',
+        resourceGroupName: 'us-rg',
+        serviceName: 'apim-eus'
+      }
+    ])
+
+    expect(targets).toEqual([
+      { name: 'apim-weu', config: { ...config, serviceName: 'apim-weu' } },
+      {
+        name: 'us',
+        config: {
+          subscriptionId: 'us-subscription',
+          resourceGroupName: 'us-rg',
+          serviceName: 'apim-eus'
+        }
+      }
+    ])
+    expect(mockCore.info).toHaveBeenCalledWith(
+      'Deploying to 2 targets: apim-weu, us'
+    )
+  })
+
+  it('should use the targets input', () => {
+    const targets = resolveTargets(
+      { ...config, targets: [{ serviceName: 'apim-a' }] },
+      undefined
+    )
+
+    expect(targets.map((target) => target.name)).toEqual(['apim-a'])
+  })
+
+  it('should throw for invalid target lists', () => {
+    expect(() =>
+      resolveTargets({ ...config, targets: [{ serviceName: 'a' }] }, [
+        { serviceName: 'b' }
+      ])
+    ).toThrow(
+      'Targets are listed in both the targets input and the policy manifest'
+    )
+    expect(() => resolveTargets(config, [{ name: 'x' } as never])).toThrow(
+      'Target 1 must have a serviceName'
+    )
+    expect(() =>
+      resolveTargets({ ...config, resourceGroupName: '' }, [
+        { serviceName: 'a' }
+      ])
+    ).toThrow(
+      'Target a has no resourceGroupName and the resource_group input is not set'
+    )
+    expect(() =>
+      resolveTargets(config, [{ serviceName: 'a' }, { serviceName: 'a' }])
+    ).toThrow('Target a is listed more than once')
+  })
+
+  describe('selectEnvironmentTargets', () => {
+    const manifestTargets = [{ serviceName: 'apim-prod-weu' }]
+
+    it('should use the targets of the environment', () => {
+      const targets = [{ serviceName: 'apim-dev' }]
+
+      expect(
+        selectEnvironmentTargets(
+          config,
+          'dev',
+          { serviceName: 'ignored', targets },
+          manifestTargets
+        )
+      ).toBe(targets)
+    })
+
+    it('should inherit the manifest targets when the environment sets no service', () => {
+      expect(
+        selectEnvironmentTargets(
+          config,
+          'prod',
+          { templateValues: { TIER: 'prod' } },
+          manifestTargets
+        )
+      ).toBe(manifestTargets)
+    })
+
+    it('should deploy to the service of the environment alone', () => {
+      expect(
+        selectEnvironmentTargets(config, 'dev', { serviceName: 'apim-dev' })
+      ).toBeUndefined()
+    })
+
+    it('should throw when the service of the environment would be replaced by targets', () => {
+      const environment = {
+        serviceName: 'apim-dev',
+        resourceGroupName: 'rg-dev'
+      }
+
+      expect(() =>
+        selectEnvironmentTargets(config, 'dev', environment, manifestTargets)
+      ).toThrow(
+        "Environment dev sets its own APIM service but the policy manifest lists targets; list the environment's services in its own targets"
+      )
+      expect(() =>
+        selectEnvironmentTargets(
+          { ...config, targets: [{ serviceName: 'apim-a' }] },
+          'dev',
+          environment
+        )
+      ).toThrow(
+        'Environment dev sets its own APIM service and cannot be combined with the targets input'
+      )
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { jest } from '@jest/globals'
+
+// Mock external dependencies
+const mockCore = {
+  info: jest.fn()
+}
+
+const mockFs = {
+  readFile: jest.fn<() => Promise<string>>()
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+jest.unstable_mockModule('fs/promises', () => mockFs)
+
+// Import after mocking
+const { loadTemplateValues, renderTemplate } = await import(
+  '../src/templating.js'
+)
+
+describe('templating', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('loadTemplateValues', () => {
+    it('should return no values without a path', async () => {
+      expect(await loadTemplateValues()).toEqual({})
+      expect(mockFs.readFile).not.toHaveBeenCalled()
+    })
+
+    it('should load string, number and boolean values', async () => {
+      mockFs.readFile.mockResolvedValue(
+        'BACKEND_URL: https://dev.contoso.com\nRATE_LIMIT: 100\nTRACE: true\n'
+      )
+
+      expect(await loadTemplateValues('values/dev.yaml')).toEqual({
+        BACKEND_URL: 'https://dev.contoso.com',
+        RATE_LIMIT: '100',
+        TRACE: 'true'
+      })
+      expect(mockFs.readFile).toHaveBeenCalledWith('values/dev.yaml', 'utf-8')
+    })
+
+    it('should throw for missing files and invalid values', async () => {
+      mockFs.readFile.mockRejectedValueOnce(new Error('ENOENT'))
+      await expect(loadTemplateValues('missing.yaml')).rejects.toThrow(
+        'Failed to read template values: ENOENT'
+      )
+
+      mockFs.readFile.mockResolvedValueOnce('- a\n- b\n')
+      await expect(loadTemplateValues('list.yaml')).rejects.toThrow(
+        'Invalid template values format: expected a map of values'
+      )
+
+      mockFs.readFile.mockResolvedValueOnce('ORIGINS:\n  - a\n')
+      await expect(loadTemplateValues('nested.yaml')).rejects.toThrow(
+        'Template value ORIGINS must be a string, number or boolean'
+      )
+    })
+  })
+
+  describe('renderTemplate', () => {
+    it('should replace placeholders from values before the environment', () => {
+      const result = renderTemplate(
+        '<rate-limit calls="${RATE_LIMIT}" />\n<origin>${ORIGIN}</origin>',
+        { RATE_LIMIT: '100' },
+        { RATE_LIMIT: '5', ORIGIN: 'https://contoso.com' }
+      )
+
+      expect(result).toEqual({
+        content:
+          '<rate-limit calls="100" />\n<origin>https://contoso.com</origin>',
+        unresolved: []
+      })
+    })
+
+    it('should leave named values and escaped placeholders alone', () => {
+      const result = renderTemplate(
+        '<value>{{backend-key}}</value><value>$${LITERAL}</value>',
+        {},
+        {}
+      )
+
+      expect(result).toEqual({
+        content: '<value>{{backend-key}}</value><value>${LITERAL}</value>',
+        unresolved: []
+      })
+    })
+
+    it('should escape values unless they are inserted raw', () => {
+      const result = renderTemplate(
+        '<set-backend-service base-url="${BACKEND_URL}" />\n<origin>${ORIGIN}</origin>\n${raw:HEADERS}\n<value>$${raw:LITERAL}</value>',
+        {
+          BACKEND_URL: 'https://x/api?a=1&b=2',
+          ORIGIN: '<"it\'s">',
+          HEADERS: '<set-header name="x" />'
+        },
+        {}
+      )
+
+      expect(result).toEqual({
+        content:
+          '<set-backend-service base-url="https://x/api?a=1&amp;b=2" />\n<origin>&lt;&quot;it&apos;s&quot;&gt;</origin>\n<set-header name="x" />\n<value>${raw:LITERAL}</value>',
+        unresolved: []
+      })
+    })
+
+    it('should report unresolved placeholders with their location', () => {
+      const result = renderTemplate(
+        '<policies>\r\n  <x a="${A}" b="${MISSING}" />\r\n</policies>',
+        { A: 'a' },
+        {}
+      )
+
+      expect(result).toEqual({
+        content: '<policies>\r\n  <x a="a" b="${MISSING}" />\r\n</policies>',
+        unresolved: [{ name: 'MISSING', line: 2, column: 18 }]
+      })
+    })
+  })
+})
@@ -3,7 +3,8 @@ import { jest } from '@jest/globals'
 // Mock @actions/core
 const mockCore = {
   getInput: jest.fn(),
-  info: jest.fn()
+  info: jest.fn(),
+  setSecret: jest.fn()
 }
 
 jest.unstable_mockModule('@actions/core', () => mockCore)
@@ -11,9 +12,24 @@ jest.unstable_mockModule('@actions/core', () => mockCore)
 // Import after mocking
 const {
   parseInputs,
-  validateXmlContent,
+  parseTargetsInput,
+  parseModeInput,
+  parsePruneInput,
+  parseConflictInput,
+  parseListInput,
+  parseBooleanInput,
+  parseFailurePolicyInput,
+  parseSecretsInput,
+  formatPolicyTarget,
+  normalizePolicyContent,
+  findXmlError,
   extractApiIdFromPath,
   extractOperationIdFromPath,
+  extractProductIdFromPath,
+  extractFragmentIdFromPath,
+  isGlobalPolicy,
+  isPolicyFragment,
+  isProductPolicy,
   isApiLevelPolicy,
   isOperationLevelPolicy
 } = await import('../src/utils.js')
@@ -47,7 +63,18 @@ describe('utils', () => {
         subscriptionId: 'test-subscription',
         resourceGroupName: 'test-rg',
         serviceName: 'test-apim',
-        policyManifestPath: 'manifest.yaml'
+        policyManifestPath: 'manifest.yaml',
+        dryRun: false,
+        failOn: 'any',
+        namedValueSecrets: {},
+        targets: [],
+        canary: false,
+        mode: 'deploy',
+        prune: 'none',
+        rollbackOnFailure: false,
+        snapshotPath: undefined,
+        restoreApis: [],
+        onConflict: 'abort'
       })
     })
 
@@ -73,6 +100,59 @@ describe('utils', () => {
       expect(result.policyManifestPath).toBeUndefined()
     })
 
+    it('should allow a manifest environment to set the APIM service', () => {
+      mockCore.getInput.mockImplementation((name: unknown) => {
+        switch (name as string) {
+          case 'environment':
+            return 'prod'
+          case 'policy_manifest_path':
+            return 'manifest.yaml'
+          default:
+            return ''
+        }
+      })
+
+      expect(parseInputs()).toEqual(
+        expect.objectContaining({
+          subscriptionId: '',
+          environment: 'prod',
+          policyManifestPath: 'manifest.yaml'
+        })
+      )
+      expect(mockCore.getInput).toHaveBeenCalledWith('subscription_id', {
+        required: false
+      })
+    })
+
+    it('should require a manifest when an environment is selected', () => {
+      mockCore.getInput.mockImplementation((name: unknown) =>
+        name === 'environment' ? 'prod' : ''
+      )
+
+      expect(() => parseInputs()).toThrow(
+        'environment input requires policy_manifest_path'
+      )
+    })
+
+    it('should require a snapshot in restore mode', () => {
+      mockCore.getInput.mockImplementation((name: unknown) => {
+        switch (name as string) {
+          case 'subscription_id':
+            return 'sub-id'
+          case 'resource_group':
+            return 'rg'
+          case 'apim_name':
+            return 'apim'
+          case 'mode':
+            return 'restore'
+          default:
+            return ''
+        }
+      })
+
+      expect(() => parseInputs()).toThrow('restore mode requires snapshot_path')
+    })
+
     it('should throw error for missing required inputs', () => {
       mockCore.getInput.mockReturnValue('')
 
@@ -116,33 +196,243 @@ describe('utils', () => {
     })
   })
 
-  describe('validateXmlContent', () => {
-    it('should validate correct XML policy content', () => {
+  describe('parseModeInput', () => {
+    it('should default to deploy and accept the other modes', () => {
+      mockCore.getInput.mockReturnValueOnce('')
+      expect(parseModeInput('mode')).toBe('deploy')
+      mockCore.getInput.mockReturnValueOnce(' Export ')
+      expect(parseModeInput('mode')).toBe('export')
+      mockCore.getInput.mockReturnValueOnce('drift-check')
+      expect(parseModeInput('mode')).toBe('drift-check')
+      mockCore.getInput.mockReturnValueOnce('restore')
+      expect(parseModeInput('mode')).toBe('restore')
+    })
+
+    it('should throw for unknown modes', () => {
+      mockCore.getInput.mockReturnValueOnce('pull')
+      expect(() => parseModeInput('mode')).toThrow(
+        'mode input must be one of: deploy, export, drift-check, restore'
+      )
+    })
+  })
+
+  describe('parsePruneInput', () => {
+    it('should default to none and accept delete and reset', () => {
+      mockCore.getInput.mockReturnValueOnce('')
+      expect(parsePruneInput('prune')).toBe('none')
+      mockCore.getInput.mockReturnValueOnce('Delete')
+      expect(parsePruneInput('prune')).toBe('delete')
+      mockCore.getInput.mockReturnValueOnce('reset')
+      expect(parsePruneInput('prune')).toBe('reset')
+    })
+
+    it('should throw for unknown prune modes', () => {
+      mockCore.getInput.mockReturnValueOnce('true')
+      expect(() => parsePruneInput('prune')).toThrow(
+        'prune input must be one of: none, delete, reset'
+      )
+    })
+  })
+
+  describe('parseConflictInput', () => {
+    it('should default to abort and accept force', () => {
+      mockCore.getInput.mockReturnValueOnce('')
+      expect(parseConflictInput('on_conflict')).toBe('abort')
+      mockCore.getInput.mockReturnValueOnce('Force')
+      expect(parseConflictInput('on_conflict')).toBe('force')
+    })
+
+    it('should throw for unknown conflict modes', () => {
+      mockCore.getInput.mockReturnValueOnce('retry')
+      expect(() => parseConflictInput('on_conflict')).toThrow(
+        'on_conflict input must be one of: abort, force'
+      )
+    })
+  })
+
+  describe('parseListInput', () => {
+    it('should split values by line and comma', () => {
+      mockCore.getInput.mockReturnValueOnce(
+        'users-api, orders-api\n\nbilling\n'
+      )
+
+      expect(parseListInput('restore_apis')).toEqual([
+        'users-api',
+        'orders-api',
+        'billing'
+      ])
+    })
+  })
+
+  describe('parseTargetsInput', () => {
+    it('should parse one target per line', () => {
+      mockCore.getInput.mockReturnValueOnce(
+        'apim-weu\nrg-us/apim-eus\n\nsub-1 / rg-asia / apim-sea\n'
+      )
+
+      expect(parseTargetsInput('targets')).toEqual([
+        { serviceName: 'apim-weu' },
+        { serviceName: 'apim-eus', resourceGroupName: 'rg-us' },
+        {
+          serviceName: 'apim-sea',
+          resourceGroupName: 'rg-asia',
+          subscriptionId: 'sub-1'
+        }
+      ])
+    })
+
+    it('should throw for lines with empty or extra parts', () => {
+      mockCore.getInput.mockReturnValueOnce('rg//apim')
+
+      expect(() => parseTargetsInput('targets')).toThrow(
+        'targets input lines must be serviceName, resourceGroup/serviceName or subscriptionId/resourceGroup/serviceName'
+      )
+    })
+  })
+
+  describe('parseBooleanInput', () => {
+    it('should parse true and false case-insensitively', () => {
+      mockCore.getInput.mockReturnValueOnce('TRUE').mockReturnValueOnce('false')
+
+      expect(parseBooleanInput('dry_run')).toBe(true)
+      expect(parseBooleanInput('dry_run')).toBe(false)
+    })
+
+    it('should return the default value for empty input', () => {
+      mockCore.getInput.mockReturnValue('')
+
+      expect(parseBooleanInput('dry_run')).toBe(false)
+      expect(parseBooleanInput('dry_run', true)).toBe(true)
+    })
+
+    it('should throw for values other than true or false', () => {
+      mockCore.getInput.mockReturnValue('yes')
+
+      expect(() => parseBooleanInput('dry_run')).toThrow(
+        "dry_run input must be 'true' or 'false'"
+      )
+    })
+  })
+
+  describe('parseFailurePolicyInput', () => {
+    it('should default to any and accept all and never', () => {
+      mockCore.getInput.mockReturnValueOnce('')
+      expect(parseFailurePolicyInput('fail_on')).toBe('any')
+      mockCore.getInput.mockReturnValueOnce('All')
+      expect(parseFailurePolicyInput('fail_on')).toBe('all')
+      mockCore.getInput.mockReturnValueOnce('never')
+      expect(parseFailurePolicyInput('fail_on')).toBe('never')
+    })
+
+    it('should throw for unknown values', () => {
+      mockCore.getInput.mockReturnValueOnce('some')
+      expect(() => parseFailurePolicyInput('fail_on')).toThrow(
+        'fail_on input must be one of: any, all, never'
+      )
+    })
+  })
+
+  describe('parseSecretsInput', () => {
+    it('should parse key=value lines and mask every value', () => {
+      mockCore.getInput.mockReturnValueOnce(
+        'backend-key=abc=def\n\n  tenant = t1\n'
+      )
+
+      expect(parseSecretsInput('named_value_secrets')).toEqual({
+        'backend-key': 'abc=def',
+        tenant: ' t1'
+      })
+      expect(mockCore.setSecret).toHaveBeenCalledWith('abc=def')
+      expect(mockCore.setSecret).toHaveBeenCalledWith(' t1')
+    })
+
+    it('should throw for lines without a key', () => {
+      mockCore.getInput.mockReturnValueOnce('=value')
+      expect(() => parseSecretsInput('named_value_secrets')).toThrow(
+        'named_value_secrets input must contain key=value lines'
+      )
+    })
+  })
+
+  describe('formatPolicyTarget', () => {
+    it('should format global, API and operation targets', () => {
+      expect(formatPolicyTarget({})).toBe('global')
+      expect(formatPolicyTarget({ productId: 'starter' })).toBe(
+        'products/starter'
+      )
+      expect(formatPolicyTarget({ fragmentId: 'auth' })).toBe('fragments/auth')
+      expect(formatPolicyTarget({ apiId: 'api1' })).toBe('api1')
+      expect(formatPolicyTarget({ apiId: 'api1', operationId: 'op1' })).toBe(
+        'api1/op1'
+      )
+    })
+  })
+
+  describe('normalizePolicyContent', () => {
+    it('should ignore indentation, blank lines and line endings', () => {
+      const a =
+        '<policies>\r\n  <inbound>\r\n\r\n    <base />\r\n  </inbound>\r\n</policies>\r\n'
+      const b = '<policies>\n<inbound>\n<base />\n</inbound>\n</policies>'
+
+      expect(normalizePolicyContent(a)).toBe(normalizePolicyContent(b))
+    })
+
+    it('should detect content differences', () => {
+      expect(normalizePolicyContent('<policies><a /></policies>')).not.toBe(
+        normalizePolicyContent('<policies><b /></policies>')
+      )
+    })
+  })
+
+  describe('findXmlError', () => {
+    it('should accept well-formed policy content', () => {
       const validXml = `
-        <policies>
+        <policies xmlns:x="urn:x">
           <inbound>
             <base />
+            <set-variable name="a" value="@(context.Request.Url.Path.Contains("<"))" />
           </inbound>
-          <outbound>
+          <outbound >
             <base />
           </outbound>
-        </policies>
+        </policies >
       `
-      expect(validateXmlContent(validXml)).toBe(true)
+      expect(findXmlError(validXml)).toBeUndefined()
     })
 
-    it('should reject empty content', () => {
-      expect(validateXmlContent('')).toBe(false)
-      expect(validateXmlContent('   ')).toBe(false)
+    it('should report empty content', () => {
+      expect(findXmlError('')).toMatchObject({ reason: 'Document is empty' })
+      expect(findXmlError('   ')).toMatchObject({ reason: 'Document is empty' })
     })
 
-    it('should reject non-XML content', () => {
-      expect(validateXmlContent('not xml')).toBe(false)
+    it('should report unclosed tags with their location', () => {
+      expect(
+        findXmlError('<policies>\n  <inbound>\n    <base />\n</policies>')
+      ).toMatchObject({
+        reason: 'Expected </inbound> but found </policies>',
+        line: 4,
+        column: 1
+      })
+    })
+
+    it('should report bad attribute quoting', () => {
+      expect(
+        findXmlError('<policies><set-header name=x /></policies>')
+      ).toMatchObject({ reason: "Value of attribute 'name' must be quoted" })
     })
 
     it('should reject XML without policies element', () => {
-      const invalidXml = '<root><child /></root>'
-      expect(validateXmlContent(invalidXml)).toBe(false)
+      expect(findXmlError('<root><child /></root>')).toMatchObject({
+        reason: 'Root element must be <policies> but found <root>',
+        line: 1,
+        column: 1
+      })
+    })
+
+    it('should validate policy fragments with a fragment root element', () => {
+      const fragment = '<fragment>\n  <set-header name="x" />\n</fragment>'
+      expect(findXmlError(fragment, 'fragment')).toBeUndefined()
+      expect(findXmlError(fragment)).toBeDefined()
     })
   })
 
@@ -188,6 +478,64 @@ describe('utils', () => {
     })
   })
 
+  describe('isGlobalPolicy', () => {
+    it('should identify the global policy path', () => {
+      expect(isGlobalPolicy('policies/global.xml')).toBe(true)
+      expect(isGlobalPolicy('policies\\global.xml')).toBe(true)
+    })
+
+    it('should reject API and operation policy paths', () => {
+      expect(isGlobalPolicy('policies/global/api.xml')).toBe(false)
+      expect(isGlobalPolicy('policies/my-api/operations/global.xml')).toBe(
+        false
+      )
+    })
+  })
+
+  describe('extractProductIdFromPath', () => {
+    it('should extract product ID from product policy path', () => {
+      expect(extractProductIdFromPath('policies/products/starter.xml')).toBe(
+        'starter'
+      )
+      expect(extractProductIdFromPath('policies\\products\\gold.xml')).toBe(
+        'gold'
+      )
+    })
+
+    it('should return null for other paths', () => {
+      expect(extractProductIdFromPath('policies/my-api/api.xml')).toBeNull()
+    })
+  })
+
+  describe('extractFragmentIdFromPath', () => {
+    it('should extract fragment ID from policy fragment path', () => {
+      expect(extractFragmentIdFromPath('policies/fragments/auth.xml')).toBe(
+        'auth'
+      )
+      expect(extractFragmentIdFromPath('policies/my-api/api.xml')).toBeNull()
+    })
+  })
+
+  describe('isPolicyFragment', () => {
+    it('should identify policy fragment paths', () => {
+      expect(isPolicyFragment('policies/fragments/auth.xml')).toBe(true)
+      expect(isPolicyFragment('policies/fragments/api.xml')).toBe(false)
+    })
+  })
+
+  describe('isProductPolicy', () => {
+    it('should identify product policy paths', () => {
+      expect(isProductPolicy('policies/products/starter.xml')).toBe(true)
+    })
+
+    it('should treat products/api.xml as the policy of an API named products', () => {
+      expect(isProductPolicy('policies/products/api.xml')).toBe(false)
+      expect(isProductPolicy('policies/products/operations/list.xml')).toBe(
+        false
+      )
+    })
+  })
+
   describe('isApiLevelPolicy', () => {
     it('should identify API-level policy paths', () => {
       expect(isApiLevelPolicy('policies/my-api/api.xml')).toBe(true)
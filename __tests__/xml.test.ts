@@ -0,0 +1,162 @@
+import { parseXml, canonicalizeXml, XmlParseError } from '../src/xml.js'
+
+describe('xml', () => {
+  describe('parseXml', () => {
+    it('should parse elements, attributes, text and comments', () => {
+      const root = parseXml(`<?xml version="1.0"?>
+<policies>
+  <!-- note -->
+  <inbound a="1" b='2'>
+    <value>x &amp; y</value>
+  </inbound>
+</policies>`)
+
+      expect(root.name).toBe('policies')
+      expect(root.line).toBe(2)
+      const inbound = root.children.find(
+        (child) => child.type === 'element'
+      ) as ReturnType<typeof parseXml>
+      expect(inbound.attributes).toEqual([
+        { name: 'a', value: '1', line: 4, column: 12 },
+        { name: 'b', value: '2', line: 4, column: 18 }
+      ])
+      expect(root.children.some((child) => child.type === 'comment')).toBe(true)
+      const value = inbound.children.find(
+        (child) => child.type === 'element'
+      ) as ReturnType<typeof parseXml>
+      expect(value.children[0]).toMatchObject({
+        type: 'text',
+        value: 'x & y'
+      })
+    })
+
+    it('should accept raw policy expressions in attributes and text', () => {
+      const root = parseXml(`<policies>
+  <inbound>
+    <set-variable name="ua" value="@(context.Request.Headers.GetValueOrDefault("User-Agent", ""))" />
+    <set-body>@{
+      var body = context.Request.Body.As<JObject>();
+      return body["a"] != null && (int)body["a"] < 3 ? "}" : "{";
+    }</set-body>
+  </inbound>
+</policies>`)
+
+      const inbound = root.children[1] as ReturnType<typeof parseXml>
+      const setVariable = inbound.children[1] as ReturnType<typeof parseXml>
+      expect(setVariable.attributes[1].value).toBe(
+        '@(context.Request.Headers.GetValueOrDefault("User-Agent", ""))'
+      )
+    })
+
+    it('should accept XML-escaped policy expressions', () => {
+      const root = parseXml(
+        '<policies><set-variable name="ua" value="@(context.Request.Headers.GetValueOrDefault(&quot;)&quot;, &quot;&quot;))" /></policies>'
+      )
+
+      const setVariable = root.children[0] as ReturnType<typeof parseXml>
+      expect(setVariable.attributes[1].value).toBe(
+        '@(context.Request.Headers.GetValueOrDefault(")", ""))'
+      )
+    })
+
+    it.each([
+      ['', 'Document is empty', 1, 1],
+      ['<policies>', 'Element <policies> is not closed', 1, 1],
+      [
+        '<policies>\n  <inbound>\n</policies>',
+        'Expected </inbound> but found </policies>',
+        3,
+        1
+      ],
+      [
+        '<policies><a b=1 /></policies>',
+        "Value of attribute 'b' must be quoted",
+        1,
+        16
+      ],
+      [
+        '<policies><a b="1" b="2" /></policies>',
+        "Duplicate attribute 'b'",
+        1,
+        20
+      ],
+      [
+        '<policies><a b="1"c="2" /></policies>',
+        "Unexpected character 'c' in start tag <a>",
+        1,
+        19
+      ],
+      [
+        '<policies>a & b</policies>',
+        "Unescaped '&' (use &amp; or a valid entity reference)",
+        1,
+        13
+      ],
+      [
+        '<policies />\n<extra />',
+        'Unexpected content after the root element',
+        2,
+        1
+      ],
+      [
+        '<policies><a v="@(x" /></policies>',
+        'Policy expression is not closed',
+        1,
+        17
+      ]
+    ])('should report %j as "%s" at %i:%i', (content, reason, line, column) => {
+      let error: unknown
+      try {
+        parseXml(content)
+      } catch (e) {
+        error = e
+      }
+
+      expect(error).toBeInstanceOf(XmlParseError)
+      expect(error).toMatchObject({ reason, line, column })
+    })
+  })
+
+  describe('canonicalizeXml', () => {
+    it('should ignore whitespace, attribute order and escaping', () => {
+      const a = `<policies>
+    <inbound>
+        <base />
+        <set-header name="x" exists-action="override"><value>a "b"</value></set-header>
+    </inbound>
+</policies>`
+      const b = `<policies><inbound><base/>
+  <set-header exists-action='override' name='x'>
+    <value><![CDATA[a "b"]]></value>
+  </set-header></inbound></policies>`
+
+      expect(canonicalizeXml(a)).toBe(canonicalizeXml(b))
+      expect(canonicalizeXml(a)).toBe(`<policies>
+  <inbound>
+    <base />
+    <set-header exists-action="override" name="x">
+      <value>a "b"</value>
+    </set-header>
+  </inbound>
+</policies>`)
+    })
+
+    it('should keep comments and multi-line text', () => {
+      expect(
+        canonicalizeXml(
+          '<policies><!--  note  --><set-body>\n  line 1\n\n  line 2\n</set-body></policies>'
+        )
+      ).toBe(`<policies>
+  <!-- note -->
+  <set-body>
+    line 1
+    line 2
+  </set-body>
+</policies>`)
+    })
+
+    it('should throw for malformed XML', () => {
+      expect(() => canonicalizeXml('<policies>')).toThrow(XmlParseError)
+    })
+  })
+})
@@ -2,7 +2,76 @@
 import { DefaultAzureCredential } from '@azure/identity'
 import { ApiManagementClient } from '@azure/arm-apimanagement'
 import * as core from '@actions/core'
-import type { ApimConfig, PolicyUpdateResult } from './types.js'
+import type {
+  ApimConfig,
+  BackendDefinition,
+  BackendUpdateResult,
+  LivePolicy,
+  NamedValueDefinition,
+  NamedValueUpdateResult,
+  PolicyPruneResult,
+  PolicyUpdateResult
+} from './types.js'
+
+/**
+ * Check whether an Azure SDK error is a 404 Not Found response
+ */
+function isNotFoundError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'statusCode' in error &&
+    (error as any).statusCode === 404
+  )
+}
+
+/**
+ * Check whether an Azure SDK error is a 412 Precondition Failed response,
+ * returned when the If-Match ETag no longer matches the live resource
+ */
+function isPreconditionFailedError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'statusCode' in error &&
+    (error as any).statusCode === 412
+  )
+}
+
+/**
+ * Message of a policy update rejected because of an ETag mismatch
+ */
+const CONFLICT_MESSAGE =
+  'The live policy was changed after it was compared (ETag mismatch)'
+
+/**
+ * Extract the most detailed error message available from an Azure SDK error
+ */
+function getAzureErrorMessage(error: unknown): string {
+  let errorMessage = 'Unknown error'
+
+  if (error instanceof Error) {
+    errorMessage = error.message
+
+    // Try to extract more detailed error information from Azure API response
+    if (
+      'response' in error &&
+      error.response &&
+      typeof error.response === 'object'
+    ) {
+      const response = error.response as any
+      if (response.data && typeof response.data === 'object') {
+        if (response.data.error && response.data.error.message) {
+          errorMessage = response.data.error.message
+        } else if (response.data.message) {
+          errorMessage = response.data.message
+        }
+      }
+    }
+  }
+
+  return errorMessage
+}
 
 /**
  * Azure API Management client wrapper - Simplified MVP version
@@ -20,11 +89,13 @@ export class AzureApimClient {
   }
 
   /**
-   * Update API-level policy
+   * Update API-level policy. With an ETag the update only succeeds if the live
+   * policy still has that ETag, otherwise a conflict is returned.
    */
   async updateApiPolicy(
     apiId: string,
-    newPolicyContent: string
+    newPolicyContent: string,
+    ifMatch?: string
   ): Promise<PolicyUpdateResult> {
     try {
       // Check if API exists first
@@ -34,34 +105,40 @@ export class AzureApimClient {
           `API '${apiId}' does not exist in APIM service. Available APIs: ${apis.join(', ')}`
         )
         return {
+          scope: 'api',
           apiId,
           updated: false,
+          status: 'failed',
           error: `API '${apiId}' not found. Available APIs: ${apis.join(', ')}`
         }
       }
 
       core.info(`Updating API policy for: ${apiId}`)
-      return await this.updateApiPolicyDirect(apiId, newPolicyContent)
+      return await this.updateApiPolicyDirect(apiId, newPolicyContent, ifMatch)
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error'
       core.error(`Failed to update API policy for ${apiId}: ${errorMessage}`)
 
       return {
+        scope: 'api',
         apiId,
         updated: false,
+        status: 'failed',
         error: errorMessage
       }
     }
   }
 
   /**
-   * Update operation-level policy
+   * Update operation-level policy. With an ETag the update only succeeds if
+   * the live policy still has that ETag, otherwise a conflict is returned.
    */
   async updateOperationPolicy(
     apiId: string,
     operationId: string,
-    newPolicyContent: string
+    newPolicyContent: string,
+    ifMatch?: string
   ): Promise<PolicyUpdateResult> {
     try {
       // Check if API exists first
@@ -71,9 +148,11 @@ export class AzureApimClient {
           `API '${apiId}' does not exist in APIM service. Available APIs: ${apis.join(', ')}`
         )
         return {
+          scope: 'operation',
           apiId,
           operationId,
           updated: false,
+          status: 'failed',
           error: `API '${apiId}' not found. Available APIs: ${apis.join(', ')}`
         }
       }
@@ -85,9 +164,11 @@ export class AzureApimClient {
           `Operation '${operationId}' does not exist in API '${apiId}'. Available operations: ${operations.join(', ')}`
         )
         return {
+          scope: 'operation',
           apiId,
           operationId,
           updated: false,
+          status: 'failed',
           error: `Operation '${operationId}' not found in API '${apiId}'. Available operations: ${operations.join(', ')}`
         }
       }
@@ -96,7 +177,8 @@ export class AzureApimClient {
       return await this.updateOperationPolicyDirect(
         apiId,
         operationId,
-        newPolicyContent
+        newPolicyContent,
+        ifMatch
       )
     } catch (error) {
       const errorMessage =
@@ -106,9 +188,11 @@ export class AzureApimClient {
       )
 
       return {
+        scope: 'operation',
         apiId,
         operationId,
         updated: false,
+        status: 'failed',
         error: errorMessage
       }
     }
@@ -119,7 +203,8 @@ export class AzureApimClient {
    */
   private async updateApiPolicyDirect(
     apiId: string,
-    policyContent: string
+    policyContent: string,
+    ifMatch?: string
   ): Promise<PolicyUpdateResult> {
     try {
       const result = await this.client.apiPolicy.createOrUpdate(
@@ -130,42 +215,37 @@ export class AzureApimClient {
         {
           value: policyContent,
           format: 'xml'
-        }
+        },
+        { ifMatch }
       )
 
       return {
+        scope: 'api',
         apiId,
         updated: true,
+        status: 'updated',
         etag: result.eTag || ''
       }
     } catch (error) {
-      let errorMessage = 'Unknown error'
-
-      if (error instanceof Error) {
-        errorMessage = error.message
-
-        // Try to extract more detailed error information from Azure API response
-        if (
-          'response' in error &&
-          error.response &&
-          typeof error.response === 'object'
-        ) {
-          const response = error.response as any
-          if (response.data && typeof response.data === 'object') {
-            if (response.data.error && response.data.error.message) {
-              errorMessage = response.data.error.message
-            } else if (response.data.message) {
-              errorMessage = response.data.message
-            }
-          }
+      if (isPreconditionFailedError(error)) {
+        return {
+          scope: 'api',
+          apiId,
+          updated: false,
+          status: 'conflict',
+          error: CONFLICT_MESSAGE
         }
       }
 
+      const errorMessage = getAzureErrorMessage(error)
+
       core.error(`Failed to update API policy for ${apiId}: ${errorMessage}`)
 
       return {
+        scope: 'api',
         apiId,
         updated: false,
+        status: 'failed',
         error: errorMessage
       }
     }
@@ -177,7 +257,8 @@ export class AzureApimClient {
   private async updateOperationPolicyDirect(
     apiId: string,
     operationId: string,
-    policyContent: string
+    policyContent: string,
+    ifMatch?: string
   ): Promise<PolicyUpdateResult> {
     try {
       const result = await this.client.apiOperationPolicy.createOrUpdate(
@@ -189,51 +270,510 @@ export class AzureApimClient {
         {
           value: policyContent,
           format: 'xml'
-        }
+        },
+        { ifMatch }
       )
 
       return {
+        scope: 'operation',
         apiId,
         operationId,
         updated: true,
+        status: 'updated',
         etag: result.eTag || ''
       }
     } catch (error) {
-      let errorMessage = 'Unknown error'
-
-      if (error instanceof Error) {
-        errorMessage = error.message
-
-        // Try to extract more detailed error information from Azure API response
-        if (
-          'response' in error &&
-          error.response &&
-          typeof error.response === 'object'
-        ) {
-          const response = error.response as any
-          if (response.data && typeof response.data === 'object') {
-            if (response.data.error && response.data.error.message) {
-              errorMessage = response.data.error.message
-            } else if (response.data.message) {
-              errorMessage = response.data.message
-            }
-          }
+      if (isPreconditionFailedError(error)) {
+        return {
+          scope: 'operation',
+          apiId,
+          operationId,
+          updated: false,
+          status: 'conflict',
+          error: CONFLICT_MESSAGE
         }
       }
 
+      const errorMessage = getAzureErrorMessage(error)
+
       core.error(
         `Failed to update operation policy for ${apiId}/${operationId}: ${errorMessage}`
       )
 
       return {
+        scope: 'operation',
         apiId,
         operationId,
         updated: false,
+        status: 'failed',
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Delete an API-level policy
+   */
+  async deleteApiPolicy(apiId: string): Promise<PolicyPruneResult> {
+    try {
+      await this.client.apiPolicy.delete(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        apiId,
+        'policy',
+        '*'
+      )
+
+      return { scope: 'api', apiId, action: 'deleted', pruned: true }
+    } catch (error) {
+      const errorMessage = getAzureErrorMessage(error)
+
+      core.error(`Failed to delete API policy for ${apiId}: ${errorMessage}`)
+
+      return {
+        scope: 'api',
+        apiId,
+        action: 'deleted',
+        pruned: false,
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Delete an operation-level policy
+   */
+  async deleteOperationPolicy(
+    apiId: string,
+    operationId: string
+  ): Promise<PolicyPruneResult> {
+    try {
+      await this.client.apiOperationPolicy.delete(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        apiId,
+        operationId,
+        'policy',
+        '*'
+      )
+
+      return {
+        scope: 'operation',
+        apiId,
+        operationId,
+        action: 'deleted',
+        pruned: true
+      }
+    } catch (error) {
+      const errorMessage = getAzureErrorMessage(error)
+
+      core.error(
+        `Failed to delete operation policy for ${apiId}/${operationId}: ${errorMessage}`
+      )
+
+      return {
+        scope: 'operation',
+        apiId,
+        operationId,
+        action: 'deleted',
+        pruned: false,
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Update the service-level (global, all APIs) policy
+   */
+  async updateServicePolicy(
+    newPolicyContent: string
+  ): Promise<PolicyUpdateResult> {
+    try {
+      core.info('Updating global policy')
+
+      const result = await this.client.policy.createOrUpdate(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        'policy',
+        {
+          value: newPolicyContent,
+          format: 'xml'
+        }
+      )
+
+      return {
+        scope: 'global',
+        updated: true,
+        status: 'updated',
+        etag: result.eTag || ''
+      }
+    } catch (error) {
+      const errorMessage = getAzureErrorMessage(error)
+      core.error(`Failed to update global policy: ${errorMessage}`)
+
+      return {
+        scope: 'global',
+        updated: false,
+        status: 'failed',
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Update product-level policy
+   */
+  async updateProductPolicy(
+    productId: string,
+    newPolicyContent: string
+  ): Promise<PolicyUpdateResult> {
+    try {
+      // Check if product exists first
+      const products = await this.listProducts()
+      if (!products.includes(productId)) {
+        core.warning(
+          `Product '${productId}' does not exist in APIM service. Available products: ${products.join(', ')}`
+        )
+        return {
+          scope: 'product',
+          productId,
+          updated: false,
+          status: 'failed',
+          error: `Product '${productId}' not found. Available products: ${products.join(', ')}`
+        }
+      }
+
+      core.info(`Updating product policy for: ${productId}`)
+      return await this.updateProductPolicyDirect(productId, newPolicyContent)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      core.error(
+        `Failed to update product policy for ${productId}: ${errorMessage}`
+      )
+
+      return {
+        scope: 'product',
+        productId,
+        updated: false,
+        status: 'failed',
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Direct product-level policy update
+   */
+  private async updateProductPolicyDirect(
+    productId: string,
+    policyContent: string
+  ): Promise<PolicyUpdateResult> {
+    try {
+      const result = await this.client.productPolicy.createOrUpdate(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        productId,
+        'policy',
+        {
+          value: policyContent,
+          format: 'xml'
+        }
+      )
+
+      return {
+        scope: 'product',
+        productId,
+        updated: true,
+        status: 'updated',
+        etag: result.eTag || ''
+      }
+    } catch (error) {
+      const errorMessage = getAzureErrorMessage(error)
+      core.error(
+        `Failed to update product policy for ${productId}: ${errorMessage}`
+      )
+
+      return {
+        scope: 'product',
+        productId,
+        updated: false,
+        status: 'failed',
+        error: errorMessage
+      }
+    }
+  }
+
+  /**
+   * Create or update a named value. Secret values are never logged.
+   */
+  async updateNamedValue(
+    namedValue: NamedValueDefinition
+  ): Promise<NamedValueUpdateResult> {
+    const { namedValueId } = namedValue
+
+    try {
+      core.info(`Updating named value: ${namedValueId}`)
+
+      await this.client.namedValue.beginCreateOrUpdateAndWait(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        namedValueId,
+        {
+          displayName: namedValue.displayName,
+          value: namedValue.value,
+          secret: namedValue.secret,
+          keyVault: namedValue.keyVault,
+          tags: namedValue.tags
+        }
+      )
+
+      return { namedValueId, updated: true }
+    } catch (error) {
+      const errorMessage = getAzureErrorMessage(error)
+      core.error(
+        `Failed to update named value ${namedValueId}: ${errorMessage}`
+      )
+
+      return { namedValueId, updated: false, error: errorMessage }
+    }
+  }
+
+  /**
+   * Create or update a backend
+   */
+  async updateBackend(
+    backend: BackendDefinition
+  ): Promise<BackendUpdateResult> {
+    const { backendId } = backend
+
+    try {
+      core.info(`Updating backend: ${backendId}`)
+
+      await this.client.backend.createOrUpdate(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        backendId,
+        {
+          url: backend.url,
+          protocol: backend.protocol || 'http',
+          description: backend.description,
+          credentials: backend.credentials,
+          circuitBreaker: backend.circuitBreaker
+        }
+      )
+
+      return { backendId, updated: true }
+    } catch (error) {
+      const errorMessage = getAzureErrorMessage(error)
+      core.error(`Failed to update backend ${backendId}: ${errorMessage}`)
+
+      return { backendId, updated: false, error: errorMessage }
+    }
+  }
+
+  /**
+   * Create or update a policy fragment
+   */
+  async updatePolicyFragment(
+    fragmentId: string,
+    fragmentContent: string
+  ): Promise<PolicyUpdateResult> {
+    try {
+      core.info(`Updating policy fragment: ${fragmentId}`)
+
+      const result =
+        await this.client.policyFragment.beginCreateOrUpdateAndWait(
+          this.config.resourceGroupName,
+          this.config.serviceName,
+          fragmentId,
+          {
+            value: fragmentContent,
+            format: 'xml'
+          }
+        )
+
+      return {
+        scope: 'fragment',
+        fragmentId,
+        updated: true,
+        status: 'updated',
+        etag: result.eTag || ''
+      }
+    } catch (error) {
+      const errorMessage = getAzureErrorMessage(error)
+      core.error(
+        `Failed to update policy fragment ${fragmentId}: ${errorMessage}`
+      )
+
+      return {
+        scope: 'fragment',
+        fragmentId,
+        updated: false,
+        status: 'failed',
         error: errorMessage
       }
     }
   }
 
+  /**
+   * Get the current service-level (global) policy, or null if none is set
+   */
+  async getServicePolicy(): Promise<LivePolicy | null> {
+    try {
+      core.debug('Getting global policy')
+
+      const result = await this.client.policy.get(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        'policy',
+        { format: 'xml' }
+      )
+
+      return {
+        content: result.value || '',
+        etag: result.eTag
+      }
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Failed to get global policy: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Get a policy fragment, or null if it does not exist
+   */
+  async getPolicyFragment(fragmentId: string): Promise<LivePolicy | null> {
+    try {
+      core.debug(`Getting policy fragment: ${fragmentId}`)
+
+      const result = await this.client.policyFragment.get(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        fragmentId,
+        { format: 'xml' }
+      )
+
+      return {
+        content: result.value || '',
+        etag: result.eTag
+      }
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(
+        `Failed to get policy fragment ${fragmentId}: ${errorMessage}`
+      )
+    }
+  }
+
+  /**
+   * Get the current product-level policy, or null if the product has none
+   */
+  async getProductPolicy(productId: string): Promise<LivePolicy | null> {
+    try {
+      core.debug(`Getting product policy for: ${productId}`)
+
+      const result = await this.client.productPolicy.get(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        productId,
+        'policy',
+        { format: 'xml' }
+      )
+
+      return {
+        content: result.value || '',
+        etag: result.eTag
+      }
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(
+        `Failed to get product policy for ${productId}: ${errorMessage}`
+      )
+    }
+  }
+
+  /**
+   * Get the current API-level policy, or null if the API has none
+   */
+  async getApiPolicy(apiId: string): Promise<LivePolicy | null> {
+    try {
+      core.debug(`Getting API policy for: ${apiId}`)
+
+      const result = await this.client.apiPolicy.get(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        apiId,
+        'policy',
+        { format: 'xml' }
+      )
+
+      return {
+        content: result.value || '',
+        etag: result.eTag
+      }
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Failed to get API policy for ${apiId}: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * Get the current operation-level policy, or null if the operation has none
+   */
+  async getOperationPolicy(
+    apiId: string,
+    operationId: string
+  ): Promise<LivePolicy | null> {
+    try {
+      core.debug(`Getting operation policy for: ${apiId}/${operationId}`)
+
+      const result = await this.client.apiOperationPolicy.get(
+        this.config.resourceGroupName,
+        this.config.serviceName,
+        apiId,
+        operationId,
+        'policy',
+        { format: 'xml' }
+      )
+
+      return {
+        content: result.value || '',
+        etag: result.eTag
+      }
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(
+        `Failed to get operation policy for ${apiId}/${operationId}: ${errorMessage}`
+      )
+    }
+  }
+
   /**
    * List all APIs in the APIM service
    */
@@ -263,6 +803,99 @@ export class AzureApimClient {
     }
   }
 
+  /**
+   * List all products in the APIM service
+   */
+  async listProducts(): Promise<string[]> {
+    try {
+      core.debug('Listing products in APIM service...')
+
+      const products = this.client.product.listByService(
+        this.config.resourceGroupName,
+        this.config.serviceName
+      )
+
+      const productIds: string[] = []
+      for await (const product of products) {
+        if (product.name) {
+          productIds.push(product.name)
+        }
+      }
+
+      core.debug(
+        `Found ${productIds.length} products: ${productIds.join(', ')}`
+      )
+      return productIds
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      core.warning(`Failed to list products: ${errorMessage}`)
+      return []
+    }
+  }
+
+  /**
+   * List all backend IDs in the APIM service. Throws if they cannot be
+   * listed, so references are not reported as unknown.
+   */
+  async listBackends(): Promise<string[]> {
+    try {
+      core.debug('Listing backends in APIM service...')
+
+      const backends = this.client.backend.listByService(
+        this.config.resourceGroupName,
+        this.config.serviceName
+      )
+
+      const backendIds: string[] = []
+      for await (const backend of backends) {
+        if (backend.name) {
+          backendIds.push(backend.name)
+        }
+      }
+
+      core.debug(
+        `Found ${backendIds.length} backends: ${backendIds.join(', ')}`
+      )
+      return backendIds
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Failed to list backends: ${errorMessage}`)
+    }
+  }
+
+  /**
+   * List the display names of all named values in the APIM service, which
+   * policies reference as `{{displayName}}`. Throws if they cannot be listed,
+   * so references are not reported as unresolved.
+   */
+  async listNamedValues(): Promise<string[]> {
+    try {
+      core.debug('Listing named values in APIM service...')
+
+      const namedValues = this.client.namedValue.listByService(
+        this.config.resourceGroupName,
+        this.config.serviceName
+      )
+
+      const names: string[] = []
+      for await (const namedValue of namedValues) {
+        const name = namedValue.displayName || namedValue.name
+        if (name) {
+          names.push(name)
+        }
+      }
+
+      core.debug(`Found ${names.length} named values`)
+      return names
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      throw new Error(`Failed to list named values: ${errorMessage}`)
+    }
+  }
+
   /**
    * List all operations for a specific API
    */
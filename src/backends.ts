@@ -0,0 +1,170 @@
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type {
+  BackendDefinition,
+  BackendManifestEntry,
+  PolicyFile
+} from './types.js'
+import type { XmlElement } from './xml.js'
+import { parseXml } from './xml.js'
+
+/**
+ * Manifest keys of a backend that are deployed to the APIM service
+ */
+const BACKEND_KEYS = [
+  'url',
+  'protocol',
+  'description',
+  'credentials',
+  'circuitBreaker'
+]
+
+/**
+ * Backend reference in a policy document
+ */
+export interface BackendReference {
+  /** Backend ID */
+  backendId: string
+  /** 1-based line of the reference */
+  line: number
+  /** 1-based column of the reference */
+  column: number
+}
+
+/**
+ * Extract the `backend-id` of every `<set-backend-service>` element, located
+ * at the attribute. Backend IDs computed by policy expressions cannot be
+ * checked and are skipped, as are commented-out elements. Content that is not
+ * well-formed XML has no references; it is reported by validatePolicies.
+ */
+export function extractBackendReferences(content: string): BackendReference[] {
+  let root: XmlElement
+  try {
+    root = parseXml(content)
+  } catch {
+    return []
+  }
+
+  const references: BackendReference[] = []
+  const visit = (element: XmlElement): void => {
+    if (element.name === 'set-backend-service') {
+      const attribute = element.attributes.find(
+        ({ name }) => name === 'backend-id'
+      )
+      const backendId = attribute?.value.trim()
+      if (attribute && backendId && !backendId.startsWith('@')) {
+        references.push({
+          backendId,
+          line: attribute.line,
+          column: attribute.column
+        })
+      }
+    }
+
+    for (const child of element.children) {
+      if (child.type === 'element') {
+        visit(child)
+      }
+    }
+  }
+  visit(root)
+
+  return references
+}
+
+/**
+ * Check that every backend referenced by the policies exists in the APIM
+ * service or is declared in the manifest, reporting unresolved references per
+ * file and line. Backends are only listed when a policy references one, and
+ * the check throws if they cannot be listed.
+ */
+export async function validateBackendReferences(
+  client: AzureApimClient,
+  policies: PolicyFile[],
+  declaredIds: string[] = []
+): Promise<boolean> {
+  const referencesByPolicy = policies
+    .map((policy) => ({
+      policy,
+      references: extractBackendReferences(policy.content)
+    }))
+    .filter(({ references }) => references.length > 0)
+
+  if (referencesByPolicy.length === 0) {
+    return true
+  }
+
+  // Backend IDs are case-insensitive in APIM
+  const backends = new Set(
+    [...declaredIds, ...(await client.listBackends())].map((backendId) =>
+      backendId.toLowerCase()
+    )
+  )
+  let isValid = true
+
+  for (const { policy, references } of referencesByPolicy) {
+    for (const reference of references) {
+      if (backends.has(reference.backendId.toLowerCase())) {
+        continue
+      }
+
+      core.error(
+        `Unknown backend '${reference.backendId}' in ${policy.filePath} (line ${reference.line}, column ${reference.column})`,
+        {
+          file: policy.filePath,
+          startLine: reference.line,
+          startColumn: reference.column
+        }
+      )
+      isValid = false
+    }
+  }
+
+  return isValid
+}
+
+/**
+ * Resolve the backends of the manifest into definitions to deploy. Throws if
+ * a backend has no URL, an unsupported protocol or a key that is not deployed.
+ */
+export function resolveBackends(
+  entries: Record<string, BackendManifestEntry>
+): BackendDefinition[] {
+  return Object.entries(entries).map(([backendId, entry]) => {
+    if (!entry?.url) {
+      throw new Error(`Backend ${backendId} must have a url`)
+    }
+    if (entry.protocol && !['http', 'soap'].includes(entry.protocol)) {
+      throw new Error(`Backend ${backendId} protocol must be http or soap`)
+    }
+    const unsupported = Object.keys(entry).filter(
+      (key) => !BACKEND_KEYS.includes(key)
+    )
+    if (unsupported.length > 0) {
+      throw new Error(
+        `Backend ${backendId} has unsupported keys: ${unsupported.join(', ')} (supported: ${BACKEND_KEYS.join(', ')})`
+      )
+    }
+
+    return { backendId, ...entry }
+  })
+}
+
+/**
+ * Create or update backends in order. Returns false if any update failed.
+ */
+export async function deployBackends(
+  client: AzureApimClient,
+  backends: BackendDefinition[]
+): Promise<boolean> {
+  let isSuccessful = true
+
+  for (const backend of backends) {
+    const result = await client.updateBackend(backend)
+    if (!result.updated) {
+      isSuccessful = false
+    }
+  }
+
+  return isSuccessful
+}
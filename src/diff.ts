@@ -0,0 +1,110 @@
+/**
+ * Line in an edit script: ' ' for context, '-' for removed, '+' for added
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+'
+  text: string
+  /** Number of old lines preceding this line */
+  oldIndex: number
+  /** Number of new lines preceding this line */
+  newIndex: number
+}
+
+function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split('\n')
+}
+
+/**
+ * Compute a line-based edit script using the longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length
+  const m = newLines.length
+
+  // lcs[i][j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0)
+  )
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      lines.push({ type: ' ', text: oldLines[i], oldIndex: i, newIndex: j })
+      i++
+      j++
+    } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ type: '-', text: oldLines[i], oldIndex: i, newIndex: j })
+      i++
+    } else {
+      lines.push({ type: '+', text: newLines[j], oldIndex: i, newIndex: j })
+      j++
+    }
+  }
+
+  return lines
+}
+
+function formatRange(start: number, count: number): string {
+  // Empty ranges point at the line before the change, as in GNU diff
+  return `${count === 0 ? start : start + 1},${count}`
+}
+
+/**
+ * Create a unified diff between two texts, or an empty string when they are
+ * identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  contextLines: number = 3
+): string {
+  const lines = diffLines(splitLines(oldText), splitLines(newText))
+
+  const changes = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter((index) => index >= 0)
+  if (changes.length === 0) {
+    return ''
+  }
+
+  // Group changes whose context would overlap into the same hunk
+  const hunks: Array<[number, number]> = []
+  for (const index of changes) {
+    const last = hunks[hunks.length - 1]
+    if (last && index - last[1] <= contextLines * 2 + 1) {
+      last[1] = index
+    } else {
+      hunks.push([index, index])
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`]
+  for (const [firstChange, lastChange] of hunks) {
+    const start = Math.max(0, firstChange - contextLines)
+    const end = Math.min(lines.length - 1, lastChange + contextLines)
+    const hunk = lines.slice(start, end + 1)
+
+    const oldCount = hunk.filter((line) => line.type !== '+').length
+    const newCount = hunk.filter((line) => line.type !== '-').length
+    output.push(
+      `@@ -${formatRange(hunk[0].oldIndex, oldCount)} +${formatRange(hunk[0].newIndex, newCount)} @@`
+    )
+    for (const line of hunk) {
+      output.push(`${line.type}${line.text}`)
+    }
+  }
+
+  return output.join('\n')
+}
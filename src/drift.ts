@@ -0,0 +1,115 @@
+import * as path from 'path'
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type { DriftEntry, DriftKind, PolicyFile } from './types.js'
+import { formatPolicyTarget } from './utils.js'
+import { planPolicyChanges } from './plan.js'
+import { findUnmanagedPolicies } from './prune.js'
+
+/**
+ * Drift kind of each plan action; unchanged policies have not drifted
+ */
+const DRIFT_KINDS = {
+  update: 'differs',
+  create: 'repo-only',
+  'missing-target': 'missing-target'
+} as const
+
+/**
+ * Compare the live policies of the APIM service with the repository: every
+ * policy file is planned against its live policy, and every live API and
+ * operation policy without a policy file is reported as 'live-only'. APIs
+ * excluded from the environment are not checked, and targets declared in the
+ * manifest are never live-only.
+ */
+export async function detectDrift(
+  client: AzureApimClient,
+  policies: PolicyFile[],
+  excludeApis: string[] = [],
+  managedTargets: string[] = []
+): Promise<DriftEntry[]> {
+  const drift: DriftEntry[] = []
+
+  for (const entry of await planPolicyChanges(client, policies)) {
+    if (entry.action === 'unchanged') {
+      continue
+    }
+
+    const { policy } = entry
+    drift.push({
+      kind: DRIFT_KINDS[entry.action],
+      scope: policy.scope,
+      apiId: policy.apiId,
+      operationId: policy.operationId,
+      productId: policy.productId,
+      fragmentId: policy.fragmentId,
+      filePath: path
+        .relative(process.cwd(), policy.filePath)
+        .replace(/\\/g, '/'),
+      reason: entry.reason,
+      diff: entry.diff
+    })
+  }
+
+  const apiIds = (await client.listApis()).filter(
+    (apiId) => !excludeApis.includes(apiId)
+  )
+  const unmanaged = await findUnmanagedPolicies(
+    client,
+    policies,
+    apiIds,
+    managedTargets
+  )
+  for (const { scope, apiId, operationId } of unmanaged) {
+    drift.push({ kind: 'live-only', scope, apiId, operationId })
+  }
+
+  return drift
+}
+
+/**
+ * Log a warning per drifted policy, with its diff, followed by a summary of
+ * the drift
+ */
+export function reportDrift(entries: DriftEntry[]): void {
+  const counts: Record<DriftKind, number> = {
+    differs: 0,
+    'live-only': 0,
+    'repo-only': 0,
+    'missing-target': 0
+  }
+
+  for (const entry of entries) {
+    counts[entry.kind]++
+
+    const target = `${entry.scope} policy ${formatPolicyTarget(entry)}`
+    switch (entry.kind) {
+      case 'differs':
+        core.warning(
+          `[differs] ${target}: live policy differs from ${entry.filePath}`
+        )
+        break
+      case 'live-only':
+        core.warning(
+          `[live-only] ${target}: live policy has no file in the repository`
+        )
+        break
+      case 'repo-only':
+        core.warning(`[repo-only] ${target}: ${entry.filePath} is not deployed`)
+        break
+      case 'missing-target':
+        core.warning(`[missing-target] ${target}: ${entry.reason}`)
+        break
+    }
+
+    if (entry.diff) {
+      core.startGroup(`Diff for ${target}`)
+      core.info(entry.diff)
+      core.endGroup()
+    }
+  }
+
+  core.info(
+    `Drift: ${counts.differs} differ, ${counts['live-only']} live only, ${counts['repo-only']} repo only, ${counts['missing-target']} missing target`
+  )
+}
@@ -0,0 +1,152 @@
+import * as core from '@actions/core'
+import type {
+  ApimConfig,
+  ManifestEnvironment,
+  PolicyManifest
+} from './types.js'
+
+/**
+ * Get an environment of the manifest. Throws if it is not defined.
+ */
+export function selectEnvironment(
+  manifest: PolicyManifest,
+  name: string
+): ManifestEnvironment {
+  const environment = manifest.environments?.[name]
+  if (!environment) {
+    const names = Object.keys(manifest.environments || {})
+    throw new Error(
+      `Environment '${name}' is not defined in the policy manifest (available: ${names.join(', ') || 'none'})`
+    )
+  }
+
+  return environment
+}
+
+/**
+ * Apply the APIM service of an environment to the configuration. Values of
+ * the environment override the subscription_id, resource_group and apim_name
+ * inputs.
+ */
+export function applyEnvironmentTarget(
+  config: ApimConfig,
+  name: string,
+  environment: ManifestEnvironment
+): ApimConfig {
+  core.info(`Environment: ${name}`)
+  if (environment.subscriptionId) {
+    core.info(`  Subscription ID: ${environment.subscriptionId}`)
+  }
+  if (environment.resourceGroupName) {
+    core.info(`  Resource Group: ${environment.resourceGroupName}`)
+  }
+  if (environment.serviceName) {
+    core.info(`  APIM Service: ${environment.serviceName}`)
+  }
+
+  return {
+    ...config,
+    subscriptionId: environment.subscriptionId || config.subscriptionId,
+    resourceGroupName:
+      environment.resourceGroupName || config.resourceGroupName,
+    serviceName: environment.serviceName || config.serviceName
+  }
+}
+
+/**
+ * Set the path of a manifest policy by its target. Returns false if the
+ * manifest has no policy for the target.
+ */
+function replacePolicyPath(
+  manifest: PolicyManifest,
+  target: string,
+  policyPath: string
+): boolean {
+  if (target === 'global') {
+    if (!manifest.globalPolicyPath) {
+      return false
+    }
+    manifest.globalPolicyPath = policyPath
+    return true
+  }
+
+  const [first, second] = target.split('/')
+
+  if (first === 'products' && manifest.products?.[second]) {
+    manifest.products[second] = policyPath
+    return true
+  }
+  if (first === 'fragments' && manifest.fragments?.[second]) {
+    manifest.fragments[second] = policyPath
+    return true
+  }
+
+  const entry = manifest.policies?.[first]
+  if (!entry) {
+    return false
+  }
+  if (second === undefined) {
+    if (!entry.apiPolicyPath) {
+      return false
+    }
+    entry.apiPolicyPath = policyPath
+    return true
+  }
+  if (!entry.operations?.[second]) {
+    return false
+  }
+  entry.operations[second] = policyPath
+  return true
+}
+
+/**
+ * Apply the policy paths and excluded APIs of an environment to a copy of the
+ * manifest. Throws if the environment is not defined or replaces the path of
+ * a policy that is not in the manifest.
+ */
+export function applyEnvironment(
+  manifest: PolicyManifest,
+  name: string
+): PolicyManifest {
+  const environment = selectEnvironment(manifest, name)
+
+  const applied: PolicyManifest = {
+    ...manifest,
+    products: manifest.products && { ...manifest.products },
+    fragments: manifest.fragments && { ...manifest.fragments },
+    policies:
+      manifest.policies &&
+      Object.fromEntries(
+        Object.entries(manifest.policies).map(([apiId, entry]) => [
+          apiId,
+          {
+            ...entry,
+            operations: entry.operations && { ...entry.operations }
+          }
+        ])
+      )
+  }
+
+  for (const [target, policyPath] of Object.entries(
+    environment.policyPaths || {}
+  )) {
+    if (!replacePolicyPath(applied, target, policyPath)) {
+      throw new Error(
+        `Environment ${name} replaces the path of ${target}, which is not in the policy manifest`
+      )
+    }
+  }
+
+  for (const apiId of environment.excludeApis || []) {
+    if (!applied.policies?.[apiId]) {
+      core.warning(
+        `Environment ${name} excludes API ${apiId}, which is not in the policy manifest`
+      )
+      continue
+    }
+    delete applied.policies[apiId]
+    core.info(`Excluding API ${apiId} from environment ${name}`)
+  }
+
+  return applied
+}
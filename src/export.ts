@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { stringify as stringifyYaml } from 'yaml'
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type {
+  PolicyFile,
+  PolicyManifest,
+  PolicyManifestEntry
+} from './types.js'
+
+/**
+ * Write a policy file, creating its directory
+ */
+async function writePolicyFile(
+  filePath: string,
+  content: string
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(
+    filePath,
+    content.endsWith('\n') ? content : `${content}\n`,
+    'utf-8'
+  )
+}
+
+/**
+ * Download the API and operation policies of the APIM service into the
+ * default directory structure under the output directory:
+ * `policies/<apiId>/api.xml` and `policies/<apiId>/operations/<operationId>.xml`.
+ * APIs and operations without a policy are skipped. Existing files are
+ * overwritten.
+ */
+export async function exportPolicies(
+  client: AzureApimClient,
+  outputDir: string = '.'
+): Promise<PolicyFile[]> {
+  const exported: PolicyFile[] = []
+  const policiesDir = path.join(outputDir, 'policies')
+
+  const apis = await client.listApis()
+  core.info(`Exporting policies of ${apis.length} APIs to ${policiesDir}`)
+
+  for (const apiId of apis) {
+    const apiPolicy = await client.getApiPolicy(apiId)
+    if (apiPolicy) {
+      const filePath = path.join(policiesDir, apiId, 'api.xml')
+      await writePolicyFile(filePath, apiPolicy.content)
+      exported.push({
+        filePath,
+        apiId,
+        scope: 'api',
+        content: apiPolicy.content
+      })
+      core.info(`Exported api policy ${apiId} to ${filePath}`)
+    }
+
+    for (const operationId of await client.listOperations(apiId)) {
+      const operationPolicy = await client.getOperationPolicy(
+        apiId,
+        operationId
+      )
+      if (!operationPolicy) {
+        continue
+      }
+
+      const filePath = path.join(
+        policiesDir,
+        apiId,
+        'operations',
+        `${operationId}.xml`
+      )
+      await writePolicyFile(filePath, operationPolicy.content)
+      exported.push({
+        filePath,
+        apiId,
+        operationId,
+        scope: 'operation',
+        content: operationPolicy.content
+      })
+      core.info(
+        `Exported operation policy ${apiId}/${operationId} to ${filePath}`
+      )
+    }
+  }
+
+  return exported
+}
+
+/**
+ * Build a policy manifest listing exported API and operation policies, with
+ * paths relative to the working directory like discovery expects
+ */
+export function buildPolicyManifest(exported: PolicyFile[]): PolicyManifest {
+  // Manifest entries are keyed by API ID and do not repeat it
+  const policies: Record<string, Omit<PolicyManifestEntry, 'apiId'>> = {}
+
+  for (const policy of exported) {
+    const relativePath = path
+      .relative(process.cwd(), path.resolve(policy.filePath))
+      .replace(/\\/g, '/')
+    const entry = (policies[policy.apiId!] ??= {})
+
+    if (policy.scope === 'api') {
+      entry.apiPolicyPath = relativePath
+    } else if (policy.scope === 'operation') {
+      entry.operations = {
+        ...entry.operations,
+        [policy.operationId!]: relativePath
+      }
+    }
+  }
+
+  return { policies: policies as PolicyManifest['policies'] }
+}
+
+/**
+ * Write a policy manifest as YAML
+ */
+export async function writePolicyManifest(
+  manifestPath: string,
+  manifest: PolicyManifest
+): Promise<void> {
+  await fs.mkdir(path.dirname(manifestPath), { recursive: true })
+  await fs.writeFile(manifestPath, stringifyYaml(manifest), 'utf-8')
+  core.info(`Policy manifest written to ${manifestPath}`)
+}
@@ -0,0 +1,98 @@
+import type { PolicyFile } from './types.js'
+import type { XmlElement } from './xml.js'
+import { parseXml } from './xml.js'
+
+/**
+ * Extract the IDs of the policy fragments included by a policy through
+ * `<include-fragment fragment-id="..." />`, in order of first appearance.
+ * Commented-out elements are skipped. Content that is not well-formed XML has
+ * no references; it is reported by validatePolicies.
+ */
+export function extractFragmentReferences(content: string): string[] {
+  let root: XmlElement
+  try {
+    root = parseXml(content)
+  } catch {
+    return []
+  }
+
+  const references: string[] = []
+  const visit = (element: XmlElement): void => {
+    if (element.name === 'include-fragment') {
+      const fragmentId = element.attributes
+        .find(({ name }) => name === 'fragment-id')
+        ?.value.trim()
+      if (fragmentId && !references.includes(fragmentId)) {
+        references.push(fragmentId)
+      }
+    }
+
+    for (const child of element.children) {
+      if (child.type === 'element') {
+        visit(child)
+      }
+    }
+  }
+  visit(root)
+
+  return references
+}
+
+/**
+ * Order policies so that every policy fragment is deployed before the
+ * fragments and policies that include it. Fragments come first, sorted by
+ * their dependencies; all other policies keep their discovery order.
+ * References to fragments that are not part of the repository are assumed
+ * to already exist in the APIM service.
+ */
+export function orderPoliciesForDeployment(
+  policies: PolicyFile[]
+): PolicyFile[] {
+  const fragments = new Map<string, PolicyFile>()
+  for (const policy of policies) {
+    if (policy.scope === 'fragment') {
+      fragments.set(policy.fragmentId!, policy)
+    }
+  }
+
+  const ordered: PolicyFile[] = []
+  const visited = new Set<string>()
+  const visiting: string[] = []
+
+  const visit = (fragmentId: string): void => {
+    if (visited.has(fragmentId)) {
+      return
+    }
+
+    const cycleStart = visiting.indexOf(fragmentId)
+    if (cycleStart !== -1) {
+      const cycle = [...visiting.slice(cycleStart), fragmentId]
+      throw new Error(
+        `Circular policy fragment references: ${cycle.join(' -> ')}`
+      )
+    }
+
+    const fragment = fragments.get(fragmentId)
+    if (!fragment) {
+      return
+    }
+
+    visiting.push(fragmentId)
+    for (const reference of extractFragmentReferences(fragment.content)) {
+      visit(reference)
+    }
+    visiting.pop()
+
+    visited.add(fragmentId)
+    ordered.push(fragment)
+  }
+
+  for (const fragmentId of fragments.keys()) {
+    visit(fragmentId)
+  }
+
+  return [
+    ...ordered,
+    ...policies.filter((policy) => policy.scope !== 'fragment')
+  ]
+}
@@ -0,0 +1,238 @@
+import * as fs from 'fs/promises'
+import { parse as parseYaml } from 'yaml'
+import * as core from '@actions/core'
+import type {
+  LintConfig,
+  LintRuleConfig,
+  LintSeverity,
+  PolicyFile
+} from './types.js'
+import type { XmlElement } from './xml.js'
+import { parseXml } from './xml.js'
+
+/**
+ * Lint config file used when no lint_config_path input is given
+ */
+export const DEFAULT_LINT_CONFIG_PATH = '.apim-policy-lint.yaml'
+
+const RULE_NAMES = ['require-base', 'forbidden-elements', 'required-elements']
+const SEVERITIES = ['error', 'warn', 'off']
+const SCOPES = ['global', 'product', 'api', 'operation', 'fragment']
+
+/**
+ * Lint rule violation in a policy document
+ */
+export interface LintViolation {
+  /** Rule that was violated */
+  rule: string
+  /** Severity of the rule */
+  severity: Exclude<LintSeverity, 'off'>
+  /** Description of the violation */
+  message: string
+  /** 1-based line of the offending element */
+  line: number
+  /** 1-based column of the offending element */
+  column: number
+}
+
+/**
+ * Throw if a lint rule entry is not valid
+ */
+function validateLintRule(entry: LintRuleConfig, index: number): void {
+  const label = `Lint rule ${index + 1}`
+
+  if (!entry || !RULE_NAMES.includes(entry.rule)) {
+    throw new Error(`${label}: rule must be one of ${RULE_NAMES.join(', ')}`)
+  }
+  if (!SEVERITIES.includes(entry.severity)) {
+    throw new Error(
+      `${label} (${entry.rule}): severity must be one of ${SEVERITIES.join(', ')}`
+    )
+  }
+  for (const scope of entry.scopes || []) {
+    if (!SCOPES.includes(scope)) {
+      throw new Error(`${label} (${entry.rule}): unknown scope '${scope}'`)
+    }
+  }
+  if (
+    entry.rule !== 'require-base' &&
+    (!Array.isArray(entry.elements) || entry.elements.length === 0)
+  ) {
+    throw new Error(`${label} (${entry.rule}): elements must not be empty`)
+  }
+}
+
+/**
+ * Load the lint config file. A missing file at the default path disables
+ * linting; a missing file at a configured path or an invalid config throws.
+ */
+export async function loadLintConfig(
+  configPath?: string
+): Promise<LintConfig | null> {
+  const lintConfigPath = configPath || DEFAULT_LINT_CONFIG_PATH
+
+  let content: string
+  try {
+    content = await fs.readFile(lintConfigPath, 'utf-8')
+  } catch (error) {
+    if (
+      !configPath &&
+      (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT'
+    ) {
+      core.debug(`No lint config found at ${lintConfigPath}`)
+      return null
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`Failed to read lint config: ${errorMessage}`)
+  }
+
+  core.info(`Loading lint config from: ${lintConfigPath}`)
+  const config = parseYaml(content) as LintConfig | null
+
+  if (!config || !Array.isArray(config.rules)) {
+    throw new Error('Invalid lint config format: missing rules list')
+  }
+  config.rules.forEach(validateLintRule)
+
+  return config
+}
+
+/**
+ * Determine if a lint rule applies to a policy
+ */
+function ruleApplies(entry: LintRuleConfig, policy: PolicyFile): boolean {
+  if (entry.scopes && !entry.scopes.includes(policy.scope)) {
+    return false
+  }
+  if (entry.apis && !(policy.apiId && entry.apis.includes(policy.apiId))) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Collect an element and all of its descendant elements in document order
+ */
+function collectElements(element: XmlElement): XmlElement[] {
+  const elements = [element]
+  for (const child of element.children) {
+    if (child.type === 'element') {
+      elements.push(...collectElements(child))
+    }
+  }
+  return elements
+}
+
+/**
+ * Run a single rule against a parsed policy document
+ */
+function runLintRule(
+  entry: LintRuleConfig,
+  root: XmlElement
+): Omit<LintViolation, 'rule' | 'severity'>[] {
+  switch (entry.rule) {
+    case 'require-base':
+      return root.children
+        .filter((section): section is XmlElement => section.type === 'element')
+        .filter(
+          (section) =>
+            !section.children.some(
+              (child) => child.type === 'element' && child.name === 'base'
+            )
+        )
+        .map((section) => ({
+          message: `Section <${section.name}> does not contain <base />`,
+          line: section.line,
+          column: section.column
+        }))
+    case 'forbidden-elements':
+      return collectElements(root)
+        .filter((element) => entry.elements!.includes(element.name))
+        .map((element) => ({
+          message: `<${element.name}> is not allowed`,
+          line: element.line,
+          column: element.column
+        }))
+    case 'required-elements': {
+      const names = new Set(collectElements(root).map((e) => e.name))
+      return entry
+        .elements!.filter((name) => !names.has(name))
+        .map((name) => ({
+          message: `<${name}> is required`,
+          line: root.line,
+          column: root.column
+        }))
+    }
+  }
+}
+
+/**
+ * Find the lint rule violations of a policy. Content that is not well-formed
+ * XML is reported by validatePolicies and has no violations here.
+ */
+export function lintPolicy(
+  policy: PolicyFile,
+  config: LintConfig
+): LintViolation[] {
+  let root: XmlElement
+  try {
+    root = parseXml(policy.content)
+  } catch {
+    return []
+  }
+
+  const violations: LintViolation[] = []
+
+  for (const entry of config.rules) {
+    if (entry.severity === 'off' || !ruleApplies(entry, policy)) {
+      continue
+    }
+    // Fragments have no sections to check for <base />
+    if (entry.rule === 'require-base' && policy.scope === 'fragment') {
+      continue
+    }
+
+    for (const violation of runLintRule(entry, root)) {
+      violations.push({
+        rule: entry.rule,
+        severity: entry.severity,
+        ...violation
+      })
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Lint all policies and report violations. Returns false if any rule with
+ * severity 'error' is violated.
+ */
+export function lintPolicies(
+  policies: PolicyFile[],
+  config: LintConfig
+): boolean {
+  let isValid = true
+
+  for (const policy of policies) {
+    for (const violation of lintPolicy(policy, config)) {
+      const message = `[${violation.rule}] ${policy.filePath} (line ${violation.line}, column ${violation.column}): ${violation.message}`
+      const properties = {
+        file: policy.filePath,
+        startLine: violation.line,
+        startColumn: violation.column
+      }
+
+      if (violation.severity === 'error') {
+        core.error(message, properties)
+        isValid = false
+      } else {
+        core.warning(message, properties)
+      }
+    }
+  }
+
+  return isValid
+}
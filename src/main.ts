@@ -1,7 +1,465 @@
 import * as core from '@actions/core'
 import { AzureApimClient } from './azure-client.js'
-import { parseInputs } from './utils.js'
-import { discoverPolicies, validatePolicies } from './policy-discovery.js'
+import { formatPolicyTarget, parseInputs } from './utils.js'
+import {
+  discoverPolicies,
+  listManifestPolicyTargets,
+  loadPolicyManifest,
+  validatePolicies
+} from './policy-discovery.js'
+import {
+  validateBaseInheritance,
+  validatePolicyStructure
+} from './policy-structure.js'
+import { loadLintConfig } from './lint.js'
+import { loadTemplateValues, toTemplateValues } from './templating.js'
+import { applyEnvironmentTarget, selectEnvironment } from './environments.js'
+import { resolveTargets, selectEnvironmentTargets } from './targets.js'
+import {
+  buildPolicyManifest,
+  exportPolicies,
+  writePolicyManifest
+} from './export.js'
+import type { DeploymentTarget } from './targets.js'
+import {
+  deployNamedValues,
+  resolveNamedValues,
+  validateNamedValueReferences
+} from './named-values.js'
+import {
+  deployBackends,
+  resolveBackends,
+  validateBackendReferences
+} from './backends.js'
+import { planPolicyChanges, reportPolicyPlan } from './plan.js'
+import { detectDrift, reportDrift } from './drift.js'
+import { findPrunablePolicies, prunePolicies } from './prune.js'
+import {
+  createSnapshotEntries,
+  rollbackPolicies,
+  writeSnapshotFile
+} from './snapshot.js'
+import {
+  loadSnapshot,
+  restoreSnapshot,
+  selectSnapshotPolicies
+} from './restore.js'
+import {
+  writeDeploymentSummary,
+  writeDriftSummary,
+  writePlanSummary
+} from './summary.js'
+import {
+  extractFragmentReferences,
+  orderPoliciesForDeployment
+} from './fragments.js'
+import { countResults, setResultOutputs } from './results.js'
+import type {
+  BackendDefinition,
+  DriftEntry,
+  FailurePolicy,
+  ManifestEnvironment,
+  NamedValueDefinition,
+  PolicyFile,
+  PolicyPruneResult,
+  PolicySnapshot,
+  PolicyUpdateResult
+} from './types.js'
+
+/**
+ * Describe the failed policy updates if they should fail the workflow run
+ * according to the failure policy, or return undefined otherwise
+ */
+function getFailureMessage(
+  results: PolicyUpdateResult[],
+  failOn: FailurePolicy
+): string | undefined {
+  const failures = results.filter(
+    (result) =>
+      result.status === 'failed' ||
+      result.status === 'skipped' ||
+      result.status === 'conflict'
+  )
+  const attempted = results.filter((result) => result.status !== 'unchanged')
+
+  if (
+    failures.length === 0 ||
+    failOn === 'never' ||
+    (failOn === 'all' && failures.length < attempted.length)
+  ) {
+    return undefined
+  }
+
+  const details = failures.map(
+    (result) =>
+      `${result.scope} policy ${formatPolicyTarget(result)}: ${result.error || result.status}`
+  )
+  return `${failures.length} of ${attempted.length} policy updates failed:\n${details.join('\n')}`
+}
+
+/**
+ * Describe the failed prunes if they should fail the workflow run according
+ * to the failure policy, or return undefined otherwise
+ */
+function getPruneFailureMessage(
+  results: PolicyPruneResult[],
+  failOn: FailurePolicy
+): string | undefined {
+  const failures = results.filter((result) => !result.pruned)
+
+  if (
+    failures.length === 0 ||
+    failOn === 'never' ||
+    (failOn === 'all' && failures.length < results.length)
+  ) {
+    return undefined
+  }
+
+  const details = failures.map(
+    (result) =>
+      `${result.scope} policy ${formatPolicyTarget(result)}: ${result.error || 'not pruned'}`
+  )
+  return `${failures.length} of ${results.length} policy prunes failed:\n${details.join('\n')}`
+}
+
+/**
+ * Describe the updated policies that could not be rolled back, or return
+ * undefined if there are none. These always fail the workflow run.
+ */
+function getRollbackFailureMessage(
+  results: PolicyUpdateResult[]
+): string | undefined {
+  const failures = results.filter((result) => result.rolledBack === false)
+  if (failures.length === 0) {
+    return undefined
+  }
+
+  const details = failures.map(
+    (result) =>
+      `${result.scope} policy ${formatPolicyTarget(result)}: ${result.error}`
+  )
+  return `${failures.length} updated policies could not be rolled back:\n${details.join('\n')}`
+}
+
+/**
+ * Resources deployed to every target, discovered and validated once
+ */
+interface Deployment {
+  /** Policies in deployment order */
+  policies: PolicyFile[]
+  /** Named values declared in the manifest */
+  namedValues: NamedValueDefinition[]
+  /** Backends declared in the manifest */
+  backends: BackendDefinition[]
+  /** API and operation policies declared in the manifest, never pruned */
+  managedTargets: string[]
+}
+
+/**
+ * Plan and deploy the policies to one APIM service with its own client, then
+ * prune live policies without a file if enabled. The live policies are added
+ * to the snapshot and its file is written before anything is updated. API
+ * and operation policies are only updated while their live ETag matches the
+ * compared one; a conflict skips the remaining updates. Throws if the service
+ * cannot be reached, a reference does not resolve or named values or backends
+ * fail to deploy.
+ */
+async function deployToTarget(
+  target: DeploymentTarget,
+  deployment: Deployment,
+  snapshot: PolicySnapshot,
+  summaryLabel?: string
+): Promise<{
+  results: PolicyUpdateResult[]
+  pruned: PolicyPruneResult[]
+  etag: string
+  snapshotFile: string
+}> {
+  const { config } = target
+  const { policies, namedValues, backends, managedTargets } = deployment
+
+  // Initialize Azure client
+  const client = new AzureApimClient(config)
+
+  // Test Azure connection
+  const connectionTest = await client.testConnection()
+  if (!connectionTest) {
+    throw new Error('Failed to connect to Azure API Management service')
+  }
+
+  // List available APIs for debugging
+  core.info('Listing available APIs in APIM service...')
+  const availableApis = await client.listApis()
+  if (availableApis.length > 0) {
+    core.info(`Available APIs: ${availableApis.join(', ')}`)
+
+    // List operations for each API (for debugging)
+    for (const apiId of availableApis.slice(0, 3)) {
+      // Limit to first 3 APIs to avoid too much output
+      const operations = await client.listOperations(apiId)
+      if (operations.length > 0) {
+        core.info(`API '${apiId}' operations: ${operations.join(', ')}`)
+      } else {
+        core.info(`API '${apiId}' has no operations`)
+      }
+    }
+  } else {
+    core.warning('No APIs found in APIM service')
+  }
+
+  // Check named value references before anything is updated
+  if (
+    !(await validateNamedValueReferences(
+      client,
+      policies,
+      namedValues.map((namedValue) => namedValue.displayName)
+    ))
+  ) {
+    throw new Error('Policies reference named values that do not exist')
+  }
+  if (
+    !(await validateBackendReferences(
+      client,
+      policies,
+      backends.map((backend) => backend.backendId)
+    ))
+  ) {
+    throw new Error('Policies reference backends that do not exist')
+  }
+
+  // Compare with the live policies so unchanged ones are not rewritten
+  core.info('Comparing policies with the APIM service...')
+  const plan = await planPolicyChanges(client, policies)
+  reportPolicyPlan(plan)
+  await writePlanSummary(plan, summaryLabel)
+
+  // Live policies of owned APIs without a file are pruned after the updates
+  const prune = config.prune || 'none'
+  const prunable = await findPrunablePolicies(
+    client,
+    policies,
+    availableApis,
+    prune,
+    managedTargets
+  )
+
+  if (config.dryRun) {
+    if (namedValues.length > 0) {
+      core.info(
+        `Named values to create or update: ${namedValues.map((namedValue) => namedValue.namedValueId).join(', ')}`
+      )
+    }
+    if (backends.length > 0) {
+      core.info(
+        `Backends to create or update: ${backends.map((backend) => backend.backendId).join(', ')}`
+      )
+    }
+    if (prunable.length > 0) {
+      core.info(
+        `Policies to ${prune === 'delete' ? 'delete' : 'reset to <base />'}: ${prunable.map(formatPolicyTarget).join(', ')}`
+      )
+    }
+    core.info('Dry run completed, no policies were updated')
+    return { results: [], pruned: [], etag: '', snapshotFile: '' }
+  }
+
+  // Save the live policies so a failed deployment can be rolled back
+  const snapshotEntries = createSnapshotEntries(plan)
+  snapshot.policies.push(
+    ...snapshotEntries.map((entry) =>
+      summaryLabel ? { ...entry, target: summaryLabel } : entry
+    )
+  )
+  const snapshotFile = await writeSnapshotFile(snapshot)
+
+  if (namedValues.length > 0) {
+    core.info('Deploying named values...')
+    if (!(await deployNamedValues(client, namedValues))) {
+      throw new Error('Failed to deploy named values')
+    }
+  }
+
+  if (backends.length > 0) {
+    core.info('Deploying backends...')
+    if (!(await deployBackends(client, backends))) {
+      throw new Error('Failed to deploy backends')
+    }
+  }
+
+  // Process policy updates
+  core.info('Starting policy updates...')
+  let results: PolicyUpdateResult[] = []
+  const failedFragments = new Set<string>()
+  let lastETag = ''
+  let conflictTarget = ''
+
+  for (const { policy, action, live } of plan) {
+    // Policies including a fragment that failed to deploy would fail or
+    // run against a stale fragment, so they are not updated
+    const failedReference = extractFragmentReferences(policy.content).find(
+      (fragmentId) => failedFragments.has(fragmentId)
+    )
+    if (failedReference) {
+      const errorMessage = `Policy fragment '${failedReference}' failed to deploy`
+      core.warning(
+        `Skipping ${policy.scope} policy: ${formatPolicyTarget(policy)} - ${errorMessage}`
+      )
+      if (policy.scope === 'fragment') {
+        failedFragments.add(policy.fragmentId!)
+      }
+      results.push({
+        scope: policy.scope,
+        apiId: policy.apiId,
+        operationId: policy.operationId,
+        productId: policy.productId,
+        fragmentId: policy.fragmentId,
+        updated: false,
+        status: 'skipped',
+        error: errorMessage
+      })
+      continue
+    }
+
+    if (action === 'unchanged') {
+      core.info(
+        `Skipping unchanged ${policy.scope} policy: ${formatPolicyTarget(policy)}`
+      )
+      results.push({
+        scope: policy.scope,
+        apiId: policy.apiId,
+        operationId: policy.operationId,
+        productId: policy.productId,
+        fragmentId: policy.fragmentId,
+        updated: false,
+        status: 'unchanged',
+        etag: live?.etag
+      })
+      continue
+    }
+
+    // The service changed during the run, so the remaining policies are not
+    // deployed on top of it
+    if (conflictTarget) {
+      results.push({
+        scope: policy.scope,
+        apiId: policy.apiId,
+        operationId: policy.operationId,
+        productId: policy.productId,
+        fragmentId: policy.fragmentId,
+        updated: false,
+        status: 'skipped',
+        error: `Skipped after a conflict on ${conflictTarget}`
+      })
+      continue
+    }
+
+    // Updates only succeed if the live policy still has the compared ETag
+    const ifMatch = config.onConflict === 'force' ? undefined : live?.etag
+
+    try {
+      let result: PolicyUpdateResult
+
+      if (policy.scope === 'fragment') {
+        result = await client.updatePolicyFragment(
+          policy.fragmentId!,
+          policy.content
+        )
+      } else if (policy.scope === 'global') {
+        result = await client.updateServicePolicy(policy.content)
+      } else if (policy.scope === 'product') {
+        result = await client.updateProductPolicy(
+          policy.productId!,
+          policy.content
+        )
+      } else if (policy.scope === 'api') {
+        result = await client.updateApiPolicy(
+          policy.apiId!,
+          policy.content,
+          ifMatch
+        )
+      } else {
+        result = await client.updateOperationPolicy(
+          policy.apiId!,
+          policy.operationId!,
+          policy.content,
+          ifMatch
+        )
+      }
+      results.push(result)
+
+      if (policy.scope === 'fragment' && result.status === 'failed') {
+        failedFragments.add(policy.fragmentId!)
+      }
+
+      if (result.updated) {
+        if (result.etag) {
+          lastETag = result.etag
+        }
+        core.info(
+          `Successfully updated ${policy.scope} policy: ${formatPolicyTarget(policy)}`
+        )
+      } else if (result.status === 'conflict') {
+        conflictTarget = `${policy.scope} policy ${formatPolicyTarget(policy)}`
+        core.error(
+          `Conflict updating ${conflictTarget}: ${result.error}. Skipping the remaining policy updates; rerun the deployment or set on_conflict to force`
+        )
+      } else if (result.error) {
+        core.error(
+          `Failed to update ${policy.scope} policy: ${formatPolicyTarget(policy)} - ${result.error}`
+        )
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      core.error(`Error processing policy ${policy.filePath}: ${errorMessage}`)
+      if (policy.scope === 'fragment') {
+        failedFragments.add(policy.fragmentId!)
+      }
+      results.push({
+        scope: policy.scope,
+        apiId: policy.apiId,
+        operationId: policy.operationId,
+        productId: policy.productId,
+        fragmentId: policy.fragmentId,
+        updated: false,
+        status: 'failed',
+        error: errorMessage
+      })
+    }
+  }
+
+  const counts = countResults(results)
+  core.info(
+    `Policy updates: ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.failed} failed, ${counts.skipped} skipped, ${counts.conflict} conflicts`
+  )
+
+  // Restore the already updated policies so the service is not left half
+  // deployed
+  const failed = counts.failed + counts.conflict
+  const rollback = config.rollbackOnFailure && failed > 0
+  if (rollback) {
+    core.warning(
+      `${failed} policy updates failed, rolling back ${counts.updated} updated policies...`
+    )
+    results = await rollbackPolicies(client, snapshotEntries, results)
+    lastETag = ''
+  }
+
+  // Exactly one result is recorded per plan entry, in plan order
+  await writeDeploymentSummary(
+    plan.map(({ policy }, index) => ({ policy, result: results[index] })),
+    availableApis,
+    summaryLabel
+  )
+
+  let pruned: PolicyPruneResult[] = []
+  if (prune !== 'none' && prunable.length > 0 && !rollback && !conflictTarget) {
+    core.info('Pruning policies without a policy file...')
+    pruned = await prunePolicies(client, prunable, prune)
+  }
+
+  return { results, pruned, etag: lastETag, snapshotFile }
+}
 
 /**
  * The main function for the action.
@@ -13,96 +471,305 @@ export async function run(): Promise<void> {
     core.info('Starting Azure API Management Policy Update action...')
 
     // Parse and validate inputs
-    const config = parseInputs()
-
-    // Initialize Azure client
-    const client = new AzureApimClient(config)
-
-    // Test Azure connection
-    const connectionTest = await client.testConnection()
-    if (!connectionTest) {
-      throw new Error('Failed to connect to Azure API Management service')
-    }
-
-    // List available APIs for debugging
-    core.info('Listing available APIs in APIM service...')
-    const availableApis = await client.listApis()
-    if (availableApis.length > 0) {
-      core.info(`Available APIs: ${availableApis.join(', ')}`)
-
-      // List operations for each API (for debugging)
-      for (const apiId of availableApis.slice(0, 3)) {
-        // Limit to first 3 APIs to avoid too much output
-        const operations = await client.listOperations(apiId)
-        if (operations.length > 0) {
-          core.info(`API '${apiId}' operations: ${operations.join(', ')}`)
-        } else {
-          core.info(`API '${apiId}' has no operations`)
+    let config = parseInputs()
+    const manifest = config.policyManifestPath
+      ? await loadPolicyManifest(config.policyManifestPath)
+      : null
+
+    // Deploy to the APIM service of the selected manifest environment
+    let environment: ManifestEnvironment | undefined
+    let manifestTargets = manifest?.targets
+    if (config.environment) {
+      if (!manifest) {
+        throw new Error('Failed to load policy manifest')
+      }
+      environment = selectEnvironment(manifest, config.environment)
+      manifestTargets = selectEnvironmentTargets(
+        config,
+        config.environment,
+        environment,
+        manifest.targets
+      )
+      config = applyEnvironmentTarget(config, config.environment, environment)
+    }
+    const targets = resolveTargets(config, manifestTargets)
+
+    // Export the live policies instead of deploying the repository's
+    if (config.mode === 'export') {
+      if (targets.length > 1) {
+        throw new Error('Export mode supports a single APIM target')
+      }
+
+      const client = new AzureApimClient(targets[0].config)
+      if (!(await client.testConnection())) {
+        throw new Error('Failed to connect to Azure API Management service')
+      }
+
+      const exported = await exportPolicies(client, config.exportDir)
+      if (config.exportManifestPath) {
+        await writePolicyManifest(
+          config.exportManifestPath,
+          buildPolicyManifest(exported)
+        )
+      }
+
+      core.setOutput('exported_count', exported.length)
+      core.info(`Exported ${exported.length} policies`)
+      return
+    }
+
+    // Re-apply the policies of a snapshot instead of the repository's
+    if (config.mode === 'restore') {
+      const snapshot = await loadSnapshot(config.snapshotPath!)
+      const isMultiTarget = targets.length > 1
+      const results: PolicyUpdateResult[] = []
+      const failures: string[] = []
+
+      for (const target of targets) {
+        const entries = selectSnapshotPolicies(
+          snapshot.policies,
+          target.name,
+          config.restoreApis
+        )
+        core.info(
+          `Restoring ${entries.length} policies from the snapshot${isMultiTarget ? ` to target ${target.name}` : ''}...`
+        )
+
+        const client = new AzureApimClient(target.config)
+        if (!(await client.testConnection())) {
+          throw new Error('Failed to connect to Azure API Management service')
+        }
+
+        const restored = await restoreSnapshot(
+          client,
+          entries,
+          config.snapshotPath!,
+          config.dryRun
+        )
+        results.push(
+          ...restored.map((result) =>
+            isMultiTarget ? { ...result, target: target.name } : result
+          )
+        )
+
+        const failureMessage = getFailureMessage(
+          restored,
+          config.failOn || 'any'
+        )
+        if (failureMessage) {
+          failures.push(
+            isMultiTarget ? `${target.name}: ${failureMessage}` : failureMessage
+          )
         }
       }
-    } else {
-      core.warning('No APIs found in APIM service')
+
+      core.setOutput('etag', '')
+      await setResultOutputs(results)
+      if (failures.length > 0) {
+        core.setFailed(failures.join('\n'))
+        return
+      }
+
+      core.info('Action completed successfully')
+      return
     }
 
-    // Discover policy files
+    // Discover policy files, replacing ${NAME} placeholders
     core.info('Discovering policy files...')
-    const policies = await discoverPolicies(config.policyManifestPath)
+    const templateValues = {
+      ...(await loadTemplateValues(config.templateValuesPath)),
+      ...toTemplateValues(environment?.templateValues || {})
+    }
+    const policies = await discoverPolicies(
+      config.policyManifestPath,
+      '.',
+      templateValues,
+      config.environment
+    )
 
     if (policies.length === 0) {
       core.warning('No policy files found to update')
       core.setOutput('etag', '')
+      await setResultOutputs([])
       return
     }
 
-    // Validate discovered policies
-    const isValid = validatePolicies(policies)
+    // Validate discovered policies, including the repository's lint rules
+    const lintConfig = await loadLintConfig(config.lintConfigPath)
+    const isValid = validatePolicies(policies, lintConfig)
     if (!isValid) {
       throw new Error('Policy validation failed')
     }
+    if (!validatePolicyStructure(policies)) {
+      throw new Error('Policy structure validation failed')
+    }
+    if (!validateBaseInheritance(policies)) {
+      throw new Error('Policy inheritance validation failed')
+    }
 
     core.info(`Found ${policies.length} valid policy files to process`)
+    const isMultiTarget = targets.length > 1
+    const managedTargets = manifest
+      ? listManifestPolicyTargets(manifest, environment?.excludeApis)
+      : []
 
-    // Process policy updates
-    core.info('Starting policy updates...')
-    let lastETag = ''
+    // Report live policies that differ from the repository instead of
+    // deploying; drift fails the run
+    if (config.mode === 'drift-check') {
+      const drift: DriftEntry[] = []
 
-    for (const policy of policies) {
-      try {
-        let result
-
-        if (policy.scope === 'api') {
-          result = await client.updateApiPolicy(policy.apiId, policy.content)
-        } else {
-          result = await client.updateOperationPolicy(
-            policy.apiId,
-            policy.operationId!,
-            policy.content
+      for (const target of targets) {
+        const client = new AzureApimClient(target.config)
+        if (!(await client.testConnection())) {
+          throw new Error(
+            isMultiTarget
+              ? `Failed to connect to Azure API Management service ${target.name}`
+              : 'Failed to connect to Azure API Management service'
           )
         }
 
-        if (result.updated) {
-          if (result.etag) {
-            lastETag = result.etag
-          }
-          core.info(
-            `Successfully updated ${policy.scope} policy: ${policy.apiId}${policy.operationId ? `/${policy.operationId}` : ''}`
+        core.info(
+          isMultiTarget
+            ? `Checking drift of target ${target.name}...`
+            : 'Checking drift...'
+        )
+        const entries = await detectDrift(
+          client,
+          policies,
+          environment?.excludeApis,
+          managedTargets
+        )
+        reportDrift(entries)
+        await writeDriftSummary(
+          entries,
+          isMultiTarget ? target.name : undefined
+        )
+        drift.push(
+          ...entries.map((entry) =>
+            isMultiTarget ? { ...entry, target: target.name } : entry
+          )
+        )
+      }
+
+      core.setOutput('drift_count', drift.length)
+      if (drift.length > 0) {
+        core.setFailed(
+          `Drift detected (${drift.length}): the APIM service does not match the repository`
+        )
+        return
+      }
+
+      core.info('No drift detected')
+      return
+    }
+
+    // Named values and backends declared in the manifest are deployed before
+    // the policies, and policy fragments before the policies that include them
+    const deployment: Deployment = {
+      policies: orderPoliciesForDeployment(policies),
+      namedValues: resolveNamedValues(
+        manifest?.namedValues || {},
+        config.namedValueSecrets
+      ),
+      backends: resolveBackends(manifest?.backends || {}),
+      managedTargets
+    }
+
+    // Deploy to every target; failures are reported once all have run
+    const results: PolicyUpdateResult[] = []
+    const pruned: PolicyPruneResult[] = []
+    const failures: string[] = []
+    const snapshot: PolicySnapshot = {
+      createdAt: new Date().toISOString(),
+      policies: []
+    }
+    let snapshotFile = ''
+    let lastETag = ''
+
+    for (const [index, target] of targets.entries()) {
+      if (isMultiTarget) {
+        core.info(
+          `Deploying to target ${target.name} (${index + 1} of ${targets.length})...`
+        )
+      }
+
+      let failureMessage: string | undefined
+      try {
+        const deployed = await deployToTarget(
+          target,
+          deployment,
+          snapshot,
+          isMultiTarget ? target.name : undefined
+        )
+        results.push(
+          ...deployed.results.map((result) =>
+            isMultiTarget ? { ...result, target: target.name } : result
+          )
+        )
+        pruned.push(
+          ...deployed.pruned.map((result) =>
+            isMultiTarget ? { ...result, target: target.name } : result
           )
-        } else if (result.error) {
+        )
+        lastETag = deployed.etag || lastETag
+        snapshotFile = deployed.snapshotFile || snapshotFile
+        failureMessage =
+          [
+            getFailureMessage(deployed.results, config.failOn || 'any'),
+            getRollbackFailureMessage(deployed.results),
+            getPruneFailureMessage(deployed.pruned, config.failOn || 'any')
+          ]
+            .filter(Boolean)
+            .join('\n') || undefined
+      } catch (error) {
+        failureMessage =
+          error instanceof Error ? error.message : 'An unknown error occurred'
+        if (isMultiTarget) {
           core.error(
-            `Failed to update ${policy.scope} policy: ${policy.apiId}${policy.operationId ? `/${policy.operationId}` : ''} - ${result.error}`
+            `Deployment to target ${target.name} failed: ${failureMessage}`
           )
         }
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : 'Unknown error'
-        core.error(
-          `Error processing policy ${policy.filePath}: ${errorMessage}`
+      }
+
+      if (!failureMessage) {
+        continue
+      }
+      failures.push(
+        isMultiTarget ? `${target.name}: ${failureMessage}` : failureMessage
+      )
+
+      // The first target is the canary for the remaining ones
+      if (config.canary && index === 0 && isMultiTarget) {
+        core.warning(
+          `Canary target ${target.name} failed, skipping targets: ${targets
+            .slice(1)
+            .map((skipped) => skipped.name)
+            .join(', ')}`
         )
+        break
       }
     }
 
-    // Set output
+    // Set outputs
     core.setOutput('etag', lastETag)
+    core.setOutput('snapshot_file', snapshotFile)
+    await setResultOutputs(results)
+    if (config.prune && config.prune !== 'none') {
+      core.setOutput('pruned', JSON.stringify(pruned))
+      core.setOutput(
+        'pruned_count',
+        pruned.filter((result) => result.pruned).length
+      )
+    }
+
+    if (failures.length > 0) {
+      core.setFailed(
+        isMultiTarget
+          ? `Deployment failed for ${failures.length} of ${targets.length} targets:\n${failures.join('\n')}`
+          : failures[0]
+      )
+      return
+    }
 
     core.info('Action completed successfully')
   } catch (error) {
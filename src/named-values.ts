@@ -0,0 +1,271 @@
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type {
+  NamedValueDefinition,
+  NamedValueManifestEntry,
+  PolicyFile
+} from './types.js'
+import type { XmlElement } from './xml.js'
+import { parseXml } from './xml.js'
+
+/**
+ * Named value reference in a policy document
+ */
+export interface NamedValueReference {
+  /** Named value display name */
+  name: string
+  /** 1-based line of the reference */
+  line: number
+  /** 1-based column of the reference */
+  column: number
+}
+
+/**
+ * Map each offset of a decoded XML value to its index in the raw content,
+ * where entity references span several characters
+ */
+function mapValueOffsets(
+  content: string,
+  start: number,
+  length: number
+): number[] {
+  const offsets: number[] = []
+  let index = start
+
+  while (offsets.length < length) {
+    offsets.push(index)
+    const entity = /^&(#x[0-9A-Fa-f]+|#[0-9]+|[A-Za-z][A-Za-z0-9]*);/.exec(
+      content.slice(index, index + 12)
+    )
+    index += entity ? entity[0].length : 1
+  }
+
+  return offsets
+}
+
+/**
+ * Blank out C# interpolated string literals (`$"..."`, `$@"..."`), where
+ * `{{` and `}}` escape braces instead of referencing a named value
+ */
+function maskInterpolatedStrings(value: string): string {
+  return value.replace(
+    /(\$@|@\$)"(?:[^"]|"")*"|\$"(?:[^"\\]|\\.)*"/g,
+    (literal) => ' '.repeat(literal.length)
+  )
+}
+
+/**
+ * Extract every `{{name}}` named value reference from policy content. Only
+ * attribute values and text are searched: comments, Liquid templates of
+ * `set-body` and escaped braces in C# interpolated strings are skipped. Content
+ * that is not well-formed XML has no references; it is reported by
+ * validatePolicies.
+ */
+export function extractNamedValueReferences(
+  content: string
+): NamedValueReference[] {
+  let root: XmlElement
+  try {
+    root = parseXml(content)
+  } catch {
+    return []
+  }
+
+  const lineStarts = [0]
+  for (let index = 0; index < content.length; index++) {
+    if (content[index] === '\n') {
+      lineStarts.push(index + 1)
+    }
+  }
+  const references: NamedValueReference[] = []
+
+  const scan = (value: string, offsets: number[]): void => {
+    for (const match of maskInterpolatedStrings(value).matchAll(
+      /\{\{([^{}]+)\}\}/g
+    )) {
+      const index = offsets[match.index!]
+      let line = lineStarts.length
+      while (lineStarts[line - 1] > index) {
+        line--
+      }
+      references.push({
+        name: match[1].trim(),
+        line,
+        column: index - lineStarts[line - 1] + 1
+      })
+    }
+  }
+  const indexOf = (node: { line: number; column: number }): number =>
+    lineStarts[node.line - 1] + node.column - 1
+
+  const visit = (element: XmlElement): void => {
+    for (const attribute of element.attributes) {
+      // The value starts after the name, '=' and the opening quote
+      const quote = /[^=]*=\s*["']/y
+      quote.lastIndex = indexOf(attribute)
+      const start = indexOf(attribute) + quote.exec(content)![0].length
+      scan(
+        attribute.value,
+        mapValueOffsets(content, start, attribute.value.length)
+      )
+    }
+
+    const isLiquid =
+      element.name === 'set-body' &&
+      element.attributes.some(
+        (attribute) =>
+          attribute.name === 'template' &&
+          attribute.value.toLowerCase() === 'liquid'
+      )
+    if (isLiquid) {
+      return
+    }
+
+    for (const child of element.children) {
+      if (child.type === 'element') {
+        visit(child)
+      } else if (child.type === 'text') {
+        const start = indexOf(child)
+        // CDATA content is not decoded, so its offsets map one to one
+        const offsets = content.startsWith('<![CDATA[', start)
+          ? Array.from(
+              { length: child.value.length },
+              (_, index) => start + 9 + index
+            )
+          : mapValueOffsets(content, start, child.value.length)
+        scan(child.value, offsets)
+      }
+    }
+  }
+  visit(root)
+
+  return references
+}
+
+/**
+ * Check that every named value referenced by the policies exists in the APIM
+ * service or is declared in the manifest, reporting unresolved references per
+ * file and line. Named values are only listed when a policy references one.
+ * Throws if they cannot be listed.
+ */
+export async function validateNamedValueReferences(
+  client: AzureApimClient,
+  policies: PolicyFile[],
+  declaredNames: string[] = []
+): Promise<boolean> {
+  const referencesByPolicy = policies
+    .map((policy) => ({
+      policy,
+      references: extractNamedValueReferences(policy.content)
+    }))
+    .filter(({ references }) => references.length > 0)
+
+  if (referencesByPolicy.length === 0) {
+    return true
+  }
+
+  // Named value names are case-insensitive in APIM
+  const namedValues = new Set(
+    [...declaredNames, ...(await client.listNamedValues())].map((name) =>
+      name.toLowerCase()
+    )
+  )
+  let isValid = true
+
+  for (const { policy, references } of referencesByPolicy) {
+    for (const reference of references) {
+      if (namedValues.has(reference.name.toLowerCase())) {
+        continue
+      }
+
+      core.error(
+        `Unresolved named value {{${reference.name}}} in ${policy.filePath} (line ${reference.line}, column ${reference.column})`,
+        {
+          file: policy.filePath,
+          startLine: reference.line,
+          startColumn: reference.column
+        }
+      )
+      isValid = false
+    }
+  }
+
+  return isValid
+}
+
+/**
+ * Resolve the named values of the manifest into definitions to deploy.
+ * Secret values from environment variables or the named_value_secrets input
+ * are masked in the log. Throws if an entry has no value, more than one value
+ * source or a missing secret.
+ */
+export function resolveNamedValues(
+  entries: Record<string, NamedValueManifestEntry>,
+  secrets: Record<string, string> = {}
+): NamedValueDefinition[] {
+  return Object.entries(entries).map(([namedValueId, entry]) => {
+    const sources = [
+      entry.value !== undefined,
+      !!entry.valueFromEnv,
+      !!entry.valueFromInput,
+      !!entry.keyVaultSecretId
+    ].filter(Boolean).length
+    if (sources !== 1) {
+      throw new Error(
+        `Named value ${namedValueId} must set exactly one of value, valueFromEnv, valueFromInput or keyVaultSecretId`
+      )
+    }
+
+    const definition: NamedValueDefinition = {
+      namedValueId,
+      displayName: entry.displayName || namedValueId,
+      secret: !!entry.secret,
+      tags: entry.tags
+    }
+
+    if (entry.keyVaultSecretId) {
+      definition.secret = true
+      definition.keyVault = {
+        secretIdentifier: entry.keyVaultSecretId,
+        identityClientId: entry.keyVaultIdentityClientId
+      }
+    } else if (entry.valueFromEnv || entry.valueFromInput) {
+      const value = entry.valueFromEnv
+        ? process.env[entry.valueFromEnv]
+        : secrets[entry.valueFromInput!]
+      if (!value) {
+        throw new Error(
+          entry.valueFromEnv
+            ? `Environment variable ${entry.valueFromEnv} for named value ${namedValueId} is not set`
+            : `Key ${entry.valueFromInput} for named value ${namedValueId} is missing from the named_value_secrets input`
+        )
+      }
+      core.setSecret(value)
+      definition.secret = true
+      definition.value = value
+    } else {
+      definition.value = String(entry.value)
+    }
+
+    return definition
+  })
+}
+
+/**
+ * Create or update named values in order. Returns false if any update failed.
+ */
+export async function deployNamedValues(
+  client: AzureApimClient,
+  namedValues: NamedValueDefinition[]
+): Promise<boolean> {
+  let isSuccessful = true
+
+  for (const namedValue of namedValues) {
+    const result = await client.updateNamedValue(namedValue)
+    if (!result.updated) {
+      isSuccessful = false
+    }
+  }
+
+  return isSuccessful
+}
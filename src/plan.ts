@@ -0,0 +1,172 @@
+import * as path from 'path'
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type {
+  LivePolicy,
+  PolicyChangeAction,
+  PolicyFile,
+  PolicyPlanEntry
+} from './types.js'
+import { formatPolicyTarget, normalizePolicyContent } from './utils.js'
+import { createUnifiedDiff } from './diff.js'
+
+/**
+ * Create a unified diff between the canonical live and repository policies
+ */
+function createPolicyDiff(policy: PolicyFile, liveContent: string): string {
+  return createUnifiedDiff(
+    liveContent ? normalizePolicyContent(liveContent) : '',
+    normalizePolicyContent(policy.content),
+    `live/${formatPolicyTarget(policy)}`,
+    path.relative(process.cwd(), policy.filePath).replace(/\\/g, '/')
+  )
+}
+
+/**
+ * Live APIs and operations, listed on demand to detect missing targets
+ */
+interface TargetInventory {
+  products?: string[]
+  apis?: string[]
+  operationsByApi: Map<string, string[]>
+}
+
+/**
+ * Return why the target of a policy does not exist, or undefined if it does
+ */
+async function findMissingTarget(
+  client: AzureApimClient,
+  policy: PolicyFile,
+  inventory: TargetInventory
+): Promise<string | undefined> {
+  // Fragments are created when missing, like the global policy
+  if (policy.scope === 'global' || policy.scope === 'fragment') {
+    return undefined
+  }
+
+  if (policy.scope === 'product') {
+    if (!inventory.products) {
+      inventory.products = await client.listProducts()
+    }
+    return inventory.products.includes(policy.productId!)
+      ? undefined
+      : `Product '${policy.productId}' not found`
+  }
+
+  const apiId = policy.apiId!
+  if (!inventory.apis) {
+    inventory.apis = await client.listApis()
+  }
+  if (!inventory.apis.includes(apiId)) {
+    return `API '${apiId}' not found`
+  }
+
+  if (policy.scope === 'operation') {
+    // Operations are listed once per API
+    let operations = inventory.operationsByApi.get(apiId)
+    if (!operations) {
+      operations = await client.listOperations(apiId)
+      inventory.operationsByApi.set(apiId, operations)
+    }
+
+    if (!operations.includes(policy.operationId!)) {
+      return `Operation '${policy.operationId}' not found in API '${apiId}'`
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Get the live policy for the target of a policy file
+ */
+async function getLivePolicy(
+  client: AzureApimClient,
+  policy: PolicyFile
+): Promise<LivePolicy | null> {
+  switch (policy.scope) {
+    case 'global':
+      return client.getServicePolicy()
+    case 'product':
+      return client.getProductPolicy(policy.productId!)
+    case 'api':
+      return client.getApiPolicy(policy.apiId!)
+    case 'operation':
+      return client.getOperationPolicy(policy.apiId!, policy.operationId!)
+    case 'fragment':
+      return client.getPolicyFragment(policy.fragmentId!)
+  }
+}
+
+/**
+ * Compare discovered policy files with the policies deployed in the APIM
+ * service without changing anything
+ */
+export async function planPolicyChanges(
+  client: AzureApimClient,
+  policies: PolicyFile[]
+): Promise<PolicyPlanEntry[]> {
+  const entries: PolicyPlanEntry[] = []
+  const inventory: TargetInventory = { operationsByApi: new Map() }
+
+  for (const policy of policies) {
+    const reason = await findMissingTarget(client, policy, inventory)
+    if (reason) {
+      entries.push({ policy, action: 'missing-target', reason })
+      continue
+    }
+
+    const live = await getLivePolicy(client, policy)
+
+    if (!live) {
+      entries.push({
+        policy,
+        action: 'create',
+        diff: createPolicyDiff(policy, '')
+      })
+      continue
+    }
+
+    const diff = createPolicyDiff(policy, live.content)
+    if (diff) {
+      entries.push({ policy, action: 'update', live, diff })
+    } else {
+      entries.push({ policy, action: 'unchanged', live })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Log a plan entry per policy followed by a summary of planned changes
+ */
+export function reportPolicyPlan(entries: PolicyPlanEntry[]): void {
+  const counts: Record<PolicyChangeAction, number> = {
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    'missing-target': 0
+  }
+
+  for (const entry of entries) {
+    counts[entry.action]++
+
+    const target = `${entry.policy.scope} policy ${formatPolicyTarget(entry.policy)}`
+    if (entry.action === 'missing-target') {
+      core.warning(`[missing-target] ${target}: ${entry.reason}`)
+    } else {
+      core.info(`[${entry.action}] ${target}`)
+    }
+
+    if (entry.diff) {
+      core.startGroup(`Diff for ${target}`)
+      core.info(entry.diff)
+      core.endGroup()
+    }
+  }
+
+  core.info(
+    `Plan: ${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged, ${counts['missing-target']} missing target`
+  )
+}
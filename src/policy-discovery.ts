@@ -3,20 +3,48 @@ import * as path from 'path'
 import { glob } from 'glob'
 import { parse as parseYaml } from 'yaml'
 import * as core from '@actions/core'
-import type { PolicyFile, PolicyManifest } from './types.js'
+import type { LintConfig, PolicyFile, PolicyManifest } from './types.js'
+import { lintPolicies } from './lint.js'
+import { renderTemplate } from './templating.js'
+import { applyEnvironment } from './environments.js'
 import {
-  validateXmlContent,
+  findXmlError,
   extractApiIdFromPath,
   extractOperationIdFromPath,
+  extractProductIdFromPath,
+  extractFragmentIdFromPath,
+  isGlobalPolicy,
+  isPolicyFragment,
+  isProductPolicy,
   isApiLevelPolicy,
-  isOperationLevelPolicy
+  isOperationLevelPolicy,
+  formatPolicyTarget
 } from './utils.js'
 
+/**
+ * Read a policy file and replace its `${NAME}` template placeholders.
+ * Unresolved placeholders are reported by validatePolicies.
+ */
+async function readPolicyFile(
+  absolutePath: string,
+  templateValues: Record<string, string>
+): Promise<Pick<PolicyFile, 'content' | 'unresolvedPlaceholders'>> {
+  const { content, unresolved } = renderTemplate(
+    await fs.readFile(absolutePath, 'utf-8'),
+    templateValues
+  )
+
+  return unresolved.length > 0
+    ? { content, unresolvedPlaceholders: unresolved }
+    : { content }
+}
+
 /**
  * Discover policy files using default directory structure
  */
 export async function discoverPoliciesFromDefaultStructure(
-  baseDir: string = '.'
+  baseDir: string = '.',
+  templateValues: Record<string, string> = {}
 ): Promise<PolicyFile[]> {
   const policies: PolicyFile[] = []
 
@@ -39,11 +67,41 @@ export async function discoverPoliciesFromDefaultStructure(
       const absolutePath = path.resolve(baseDir, filePath)
 
       try {
-        // Read and validate XML content
-        const content = await fs.readFile(absolutePath, 'utf-8')
+        // Read and render the content
+        // XML errors are reported by validatePolicies
+        const file = await readPolicyFile(absolutePath, templateValues)
+
+        if (isPolicyFragment(filePath)) {
+          const fragmentId = extractFragmentIdFromPath(filePath)!
+          policies.push({
+            filePath: absolutePath,
+            fragmentId,
+            scope: 'fragment',
+            ...file
+          })
+          core.debug(`Added policy fragment: ${fragmentId} from ${filePath}`)
+          continue
+        }
 
-        if (!validateXmlContent(content)) {
-          core.warning(`Skipping invalid XML file: ${filePath}`)
+        if (isGlobalPolicy(filePath)) {
+          policies.push({
+            filePath: absolutePath,
+            scope: 'global',
+            ...file
+          })
+          core.debug(`Added global policy from ${filePath}`)
+          continue
+        }
+
+        if (isProductPolicy(filePath)) {
+          const productId = extractProductIdFromPath(filePath)!
+          policies.push({
+            filePath: absolutePath,
+            productId,
+            scope: 'product',
+            ...file
+          })
+          core.debug(`Added product policy: ${productId} from ${filePath}`)
           continue
         }
 
@@ -78,7 +136,7 @@ export async function discoverPoliciesFromDefaultStructure(
           apiId,
           operationId,
           scope,
-          content
+          ...file
         })
 
         core.debug(
@@ -115,13 +173,19 @@ export async function loadPolicyManifest(
     const manifestContent = await fs.readFile(manifestPath, 'utf-8')
     const manifest = parseYaml(manifestContent) as PolicyManifest
 
-    if (!manifest || !manifest.policies) {
+    if (
+      !manifest ||
+      (!manifest.policies &&
+        !manifest.globalPolicyPath &&
+        !manifest.products &&
+        !manifest.fragments)
+    ) {
       core.error('Invalid manifest format: missing policies section')
       return null
     }
 
     core.info(
-      `Loaded manifest with ${Object.keys(manifest.policies).length} API entries`
+      `Loaded manifest with ${Object.keys(manifest.policies || {}).length} API entries`
     )
     return manifest
   } catch (error) {
@@ -133,41 +197,111 @@ export async function loadPolicyManifest(
 }
 
 /**
- * Discover policy files using manifest configuration
+ * Discover policy files using manifest configuration, with the policy paths
+ * and excluded APIs of the environment if one is given
  */
 export async function discoverPoliciesFromManifest(
   manifestPath: string,
-  baseDir: string = '.'
+  baseDir: string = '.',
+  templateValues: Record<string, string> = {},
+  environment?: string
 ): Promise<PolicyFile[]> {
   const policies: PolicyFile[] = []
 
-  const manifest = await loadPolicyManifest(manifestPath)
-  if (!manifest) {
+  const loadedManifest = await loadPolicyManifest(manifestPath)
+  if (!loadedManifest) {
     return policies
   }
+  const manifest = environment
+    ? applyEnvironment(loadedManifest, environment)
+    : loadedManifest
+
+  // Process global policy
+  if (manifest.globalPolicyPath) {
+    const absolutePath = path.resolve(baseDir, manifest.globalPolicyPath)
 
-  for (const [apiId, apiConfig] of Object.entries(manifest.policies)) {
+    try {
+      const file = await readPolicyFile(absolutePath, templateValues)
+
+      policies.push({
+        filePath: absolutePath,
+        scope: 'global',
+        ...file
+      })
+      core.debug('Added global policy from manifest')
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      core.warning(`Failed to read global policy: ${errorMessage}`)
+    }
+  }
+
+  // Process product policies
+  for (const [productId, productPath] of Object.entries(
+    manifest.products || {}
+  )) {
+    const absolutePath = path.resolve(baseDir, productPath)
+
+    try {
+      const file = await readPolicyFile(absolutePath, templateValues)
+
+      policies.push({
+        filePath: absolutePath,
+        productId,
+        scope: 'product',
+        ...file
+      })
+      core.debug(`Added product policy for ${productId} from manifest`)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      core.warning(
+        `Failed to read product policy for ${productId}: ${errorMessage}`
+      )
+    }
+  }
+
+  // Process policy fragments
+  for (const [fragmentId, fragmentPath] of Object.entries(
+    manifest.fragments || {}
+  )) {
+    const absolutePath = path.resolve(baseDir, fragmentPath)
+
+    try {
+      const file = await readPolicyFile(absolutePath, templateValues)
+
+      policies.push({
+        filePath: absolutePath,
+        fragmentId,
+        scope: 'fragment',
+        ...file
+      })
+      core.debug(`Added policy fragment ${fragmentId} from manifest`)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      core.warning(
+        `Failed to read policy fragment ${fragmentId}: ${errorMessage}`
+      )
+    }
+  }
+
+  for (const [apiId, apiConfig] of Object.entries(manifest.policies || {})) {
     try {
       // Process API-level policy
       if (apiConfig.apiPolicyPath) {
         const absolutePath = path.resolve(baseDir, apiConfig.apiPolicyPath)
 
         try {
-          const content = await fs.readFile(absolutePath, 'utf-8')
-
-          if (validateXmlContent(content)) {
-            policies.push({
-              filePath: absolutePath,
-              apiId,
-              scope: 'api',
-              content
-            })
-            core.debug(`Added API policy for ${apiId} from manifest`)
-          } else {
-            core.warning(
-              `Invalid XML content in API policy for ${apiId}: ${apiConfig.apiPolicyPath}`
-            )
-          }
+          const file = await readPolicyFile(absolutePath, templateValues)
+
+          policies.push({
+            filePath: absolutePath,
+            apiId,
+            scope: 'api',
+            ...file
+          })
+          core.debug(`Added API policy for ${apiId} from manifest`)
         } catch (error) {
           const errorMessage =
             error instanceof Error ? error.message : 'Unknown error'
@@ -185,24 +319,18 @@ export async function discoverPoliciesFromManifest(
           const absolutePath = path.resolve(baseDir, operationPath)
 
           try {
-            const content = await fs.readFile(absolutePath, 'utf-8')
-
-            if (validateXmlContent(content)) {
-              policies.push({
-                filePath: absolutePath,
-                apiId,
-                operationId,
-                scope: 'operation',
-                content
-              })
-              core.debug(
-                `Added operation policy for ${apiId}/${operationId} from manifest`
-              )
-            } else {
-              core.warning(
-                `Invalid XML content in operation policy for ${apiId}/${operationId}: ${operationPath}`
-              )
-            }
+            const file = await readPolicyFile(absolutePath, templateValues)
+
+            policies.push({
+              filePath: absolutePath,
+              apiId,
+              operationId,
+              scope: 'operation',
+              ...file
+            })
+            core.debug(
+              `Added operation policy for ${apiId}/${operationId} from manifest`
+            )
           } catch (error) {
             const errorMessage =
               error instanceof Error ? error.message : 'Unknown error'
@@ -221,29 +349,67 @@ export async function discoverPoliciesFromManifest(
     }
   }
 
+  // Attach intentional <base /> overrides for validation to allow
+  for (const policy of policies) {
+    const sections = manifest.baseOverrides?.[formatPolicyTarget(policy)]
+    if (sections && (policy.scope === 'api' || policy.scope === 'operation')) {
+      policy.baseOverrides = sections
+    }
+  }
+
   return policies
 }
 
+/**
+ * List the API and operation policies declared in the manifest, as
+ * `<apiId>` or `<apiId>/<operationId>`, leaving out the excluded APIs. They
+ * stay managed by the repository even if their file cannot be read.
+ */
+export function listManifestPolicyTargets(
+  manifest: PolicyManifest,
+  excludeApis: string[] = []
+): string[] {
+  return Object.entries(manifest.policies || {})
+    .filter(([apiId]) => !excludeApis.includes(apiId))
+    .flatMap(([apiId, entry]) => [
+      ...(entry.apiPolicyPath ? [apiId] : []),
+      ...Object.keys(entry.operations || {}).map(
+        (operationId) => `${apiId}/${operationId}`
+      )
+    ])
+}
+
 /**
  * Discover all policy files based on configuration
  */
 export async function discoverPolicies(
   manifestPath?: string,
-  baseDir: string = '.'
+  baseDir: string = '.',
+  templateValues: Record<string, string> = {},
+  environment?: string
 ): Promise<PolicyFile[]> {
   if (manifestPath) {
     core.info('Using policy manifest for discovery')
-    return discoverPoliciesFromManifest(manifestPath, baseDir)
+    return discoverPoliciesFromManifest(
+      manifestPath,
+      baseDir,
+      templateValues,
+      environment
+    )
   } else {
     core.info('Using default directory structure for discovery')
-    return discoverPoliciesFromDefaultStructure(baseDir)
+    return discoverPoliciesFromDefaultStructure(baseDir, templateValues)
   }
 }
 
 /**
- * Validate that all discovered policies are valid
+ * Validate that all discovered policies are valid and, if a lint config is
+ * given, pass its rules with severity 'error'
  */
-export function validatePolicies(policies: PolicyFile[]): boolean {
+export function validatePolicies(
+  policies: PolicyFile[],
+  lintConfig?: LintConfig | null
+): boolean {
   let isValid = true
 
   if (policies.length === 0) {
@@ -252,25 +418,81 @@ export function validatePolicies(policies: PolicyFile[]): boolean {
   }
 
   const apiCounts = new Map<string, { api: number; operations: number }>()
+  const productCounts = new Map<string, number>()
+  const fragmentCounts = new Map<string, number>()
+  let globalCount = 0
 
   for (const policy of policies) {
-    // Count policies per API
-    const counts = apiCounts.get(policy.apiId) || { api: 0, operations: 0 }
-    if (policy.scope === 'api') {
-      counts.api++
+    if (policy.scope === 'global') {
+      globalCount++
+    } else if (policy.scope === 'fragment') {
+      const fragmentId = policy.fragmentId!
+      fragmentCounts.set(fragmentId, (fragmentCounts.get(fragmentId) || 0) + 1)
+    } else if (policy.scope === 'product') {
+      const productId = policy.productId!
+      productCounts.set(productId, (productCounts.get(productId) || 0) + 1)
     } else {
-      counts.operations++
+      // Count policies per API
+      const apiId = policy.apiId!
+      const counts = apiCounts.get(apiId) || { api: 0, operations: 0 }
+      if (policy.scope === 'api') {
+        counts.api++
+      } else {
+        counts.operations++
+      }
+      apiCounts.set(apiId, counts)
     }
-    apiCounts.set(policy.apiId, counts)
 
-    // Validate content again
-    if (!validateXmlContent(policy.content)) {
-      core.error(`Invalid XML content in policy: ${policy.filePath}`)
+    // Check that the content is well-formed XML
+    const xmlError = findXmlError(
+      policy.content,
+      policy.scope === 'fragment' ? 'fragment' : 'policies'
+    )
+    if (xmlError) {
+      core.error(
+        `Invalid XML content in policy: ${policy.filePath} (line ${xmlError.line}, column ${xmlError.column}): ${xmlError.reason}`,
+        {
+          file: policy.filePath,
+          startLine: xmlError.line,
+          startColumn: xmlError.column
+        }
+      )
+      isValid = false
+    }
+
+    for (const placeholder of policy.unresolvedPlaceholders || []) {
+      core.error(
+        `Unresolved template placeholder \${${placeholder.name}} in ${policy.filePath} (line ${placeholder.line}, column ${placeholder.column}): set ${placeholder.name} in the template values file or as an environment variable`,
+        {
+          file: policy.filePath,
+          startLine: placeholder.line,
+          startColumn: placeholder.column
+        }
+      )
       isValid = false
     }
   }
 
   // Report summary
+  if (globalCount > 1) {
+    core.warning('Multiple global policies found')
+    isValid = false
+  }
+
+  for (const [productId, count] of productCounts.entries()) {
+    if (count > 1) {
+      core.warning(`Multiple product policies found for ${productId}`)
+      isValid = false
+    }
+  }
+
+  for (const [fragmentId, count] of fragmentCounts.entries()) {
+    if (count > 1) {
+      core.warning(`Multiple policy fragments found for ${fragmentId}`)
+      isValid = false
+    }
+  }
+
   for (const [apiId, counts] of apiCounts.entries()) {
     core.info(
       `API ${apiId}: ${counts.api} API policy, ${counts.operations} operation policies`
@@ -282,5 +504,10 @@ export function validatePolicies(policies: PolicyFile[]): boolean {
     }
   }
 
+  if (lintConfig && !lintPolicies(policies, lintConfig)) {
+    core.error('Policy lint failed')
+    isValid = false
+  }
+
   return isValid
 }
@@ -0,0 +1,297 @@
+import * as core from '@actions/core'
+import type { PolicyFile } from './types.js'
+import type { XmlElement } from './xml.js'
+import { parseXml } from './xml.js'
+import { formatPolicyTarget } from './utils.js'
+
+/**
+ * Policy sections in the order APIM expects them
+ */
+const POLICY_SECTIONS = ['inbound', 'backend', 'outbound', 'on-error']
+
+/**
+ * Sections in which each known policy element may be used. Elements that are
+ * not listed, such as newer or custom policies, are not checked.
+ */
+const ALLOWED_SECTIONS: Record<string, string[]> = {
+  // Access restriction
+  'check-header': ['inbound'],
+  'ip-filter': ['inbound'],
+  quota: ['inbound'],
+  'quota-by-key': ['inbound'],
+  'rate-limit': ['inbound'],
+  'rate-limit-by-key': ['inbound'],
+  'validate-azure-ad-token': ['inbound'],
+  'validate-client-certificate': ['inbound'],
+  'validate-jwt': ['inbound'],
+  // Authentication
+  'authentication-basic': ['inbound'],
+  'authentication-certificate': ['inbound'],
+  'authentication-managed-identity': ['inbound'],
+  'get-authorization-context': ['inbound'],
+  // Caching
+  'cache-lookup': ['inbound'],
+  'cache-store': ['outbound'],
+  'cache-lookup-value': POLICY_SECTIONS,
+  'cache-store-value': POLICY_SECTIONS,
+  'cache-remove-value': POLICY_SECTIONS,
+  // Cross-domain
+  cors: ['inbound'],
+  'cross-domain': ['inbound'],
+  jsonp: ['outbound'],
+  // Routing
+  'forward-request': ['backend'],
+  'set-backend-service': ['inbound', 'backend'],
+  // Transformation
+  'find-and-replace': POLICY_SECTIONS,
+  'json-to-xml': ['inbound', 'outbound', 'on-error'],
+  'xml-to-json': ['inbound', 'outbound', 'on-error'],
+  'redirect-content-urls': ['inbound', 'outbound'],
+  'rewrite-uri': ['inbound'],
+  'set-body': POLICY_SECTIONS,
+  'set-header': POLICY_SECTIONS,
+  'set-method': ['inbound', 'on-error'],
+  'set-query-parameter': ['inbound', 'backend'],
+  'set-status': POLICY_SECTIONS,
+  'xsl-transform': ['inbound', 'outbound'],
+  // Validation
+  'validate-content': ['inbound', 'outbound', 'on-error'],
+  'validate-headers': ['outbound', 'on-error'],
+  'validate-parameters': ['inbound'],
+  'validate-status-code': ['outbound', 'on-error'],
+  // Advanced
+  base: POLICY_SECTIONS,
+  choose: POLICY_SECTIONS,
+  'emit-metric': POLICY_SECTIONS,
+  'include-fragment': POLICY_SECTIONS,
+  'limit-concurrency': POLICY_SECTIONS,
+  'log-to-eventhub': POLICY_SECTIONS,
+  'mock-response': ['inbound', 'outbound', 'on-error'],
+  retry: POLICY_SECTIONS,
+  'return-response': POLICY_SECTIONS,
+  'send-one-way-request': POLICY_SECTIONS,
+  'send-request': POLICY_SECTIONS,
+  'set-variable': POLICY_SECTIONS,
+  trace: POLICY_SECTIONS,
+  wait: POLICY_SECTIONS
+}
+
+/**
+ * Policy elements whose child elements are policies themselves. The children
+ * of `choose` are `when` and `otherwise` branches containing policies.
+ */
+const CONTAINER_ELEMENTS = ['retry', 'wait', 'limit-concurrency']
+
+/**
+ * Structural problem in a policy document
+ */
+export interface PolicyStructureError {
+  /** Element path, e.g. `policies/inbound/forward-request` */
+  path: string
+  /** Description of the problem */
+  reason: string
+  /** 1-based line of the element */
+  line: number
+  /** 1-based column of the element */
+  column: number
+}
+
+/**
+ * Check the policy elements within a section, descending into control flow
+ * elements whose children are policies
+ */
+function checkSectionElements(
+  parent: XmlElement,
+  parentPath: string,
+  section: string,
+  errors: PolicyStructureError[]
+): void {
+  for (const element of parent.children) {
+    if (element.type !== 'element') {
+      continue
+    }
+
+    const elementPath = `${parentPath}/${element.name}`
+    const allowedSections = ALLOWED_SECTIONS[element.name]
+    if (allowedSections && !allowedSections.includes(section)) {
+      errors.push({
+        path: elementPath,
+        reason: `<${element.name}> is not allowed in the ${section} section (allowed in ${allowedSections.join(', ')})`,
+        line: element.line,
+        column: element.column
+      })
+    }
+
+    if (element.name === 'choose') {
+      for (const branch of element.children) {
+        if (
+          branch.type === 'element' &&
+          (branch.name === 'when' || branch.name === 'otherwise')
+        ) {
+          checkSectionElements(
+            branch,
+            `${elementPath}/${branch.name}`,
+            section,
+            errors
+          )
+        }
+      }
+    } else if (CONTAINER_ELEMENTS.includes(element.name)) {
+      checkSectionElements(element, elementPath, section, errors)
+    }
+  }
+}
+
+/**
+ * Find structural problems in a policy document: sections other than
+ * inbound, backend, outbound and on-error, duplicated or misordered sections,
+ * and known policy elements used in a section where APIM does not allow them.
+ * Content that is not well-formed XML has no structural errors here; it is
+ * reported by validatePolicies.
+ */
+export function findPolicyStructureErrors(
+  content: string
+): PolicyStructureError[] {
+  let root: XmlElement
+  try {
+    root = parseXml(content)
+  } catch {
+    return []
+  }
+
+  const errors: PolicyStructureError[] = []
+  const seen: string[] = []
+
+  for (const section of root.children) {
+    if (section.type !== 'element') {
+      continue
+    }
+
+    const sectionPath = `${root.name}/${section.name}`
+    const order = POLICY_SECTIONS.indexOf(section.name)
+
+    if (order === -1) {
+      errors.push({
+        path: sectionPath,
+        reason: `Unknown section <${section.name}>, expected one of ${POLICY_SECTIONS.join(', ')}`,
+        line: section.line,
+        column: section.column
+      })
+      continue
+    }
+
+    if (seen.includes(section.name)) {
+      errors.push({
+        path: sectionPath,
+        reason: `Duplicate section <${section.name}>`,
+        line: section.line,
+        column: section.column
+      })
+      continue
+    }
+
+    const later = seen.find((name) => POLICY_SECTIONS.indexOf(name) > order)
+    if (later) {
+      errors.push({
+        path: sectionPath,
+        reason: `Section <${section.name}> must come before <${later}>`,
+        line: section.line,
+        column: section.column
+      })
+    }
+    seen.push(section.name)
+
+    checkSectionElements(section, sectionPath, section.name, errors)
+  }
+
+  return errors
+}
+
+/**
+ * Validate the structure of all policies. Policy fragments have no sections
+ * and are not checked.
+ */
+export function validatePolicyStructure(policies: PolicyFile[]): boolean {
+  let isValid = true
+
+  for (const policy of policies) {
+    if (policy.scope === 'fragment') {
+      continue
+    }
+
+    for (const error of findPolicyStructureErrors(policy.content)) {
+      core.error(
+        `Invalid policy structure in ${policy.filePath} at ${error.path}: ${error.reason}`,
+        {
+          file: policy.filePath,
+          startLine: error.line,
+          startColumn: error.column
+        }
+      )
+      isValid = false
+    }
+  }
+
+  return isValid
+}
+
+/**
+ * Validate that every section of API and operation policies contains
+ * `<base />`, so the policies of the parent scopes (global, product, API)
+ * still apply. Sections listed in the manifest's baseOverrides are allowed
+ * to omit it and are reported so the override stays visible.
+ */
+export function validateBaseInheritance(policies: PolicyFile[]): boolean {
+  let isValid = true
+
+  for (const policy of policies) {
+    if (policy.scope !== 'api' && policy.scope !== 'operation') {
+      continue
+    }
+
+    let root: XmlElement
+    try {
+      root = parseXml(policy.content)
+    } catch {
+      continue
+    }
+
+    const target = `${policy.scope} policy ${formatPolicyTarget(policy)}`
+    const overrides = policy.baseOverrides || []
+
+    for (const section of root.children) {
+      if (section.type !== 'element') {
+        continue
+      }
+
+      const hasBase = section.children.some(
+        (child) => child.type === 'element' && child.name === 'base'
+      )
+      const isOverride = overrides.includes(section.name)
+
+      if (hasBase) {
+        if (isOverride) {
+          core.warning(
+            `baseOverrides for ${target} lists ${section.name}, but the section contains <base />`
+          )
+        }
+      } else if (isOverride) {
+        core.info(
+          `Allowed missing <base /> in ${section.name} of ${target} (manifest baseOverrides)`
+        )
+      } else {
+        core.error(
+          `Missing <base /> in ${policy.filePath} at ${root.name}/${section.name}: the ${section.name} policies of the parent scopes do not apply to ${target}. Add <base /> or list the section in the manifest's baseOverrides.`,
+          {
+            file: policy.filePath,
+            startLine: section.line,
+            startColumn: section.column
+          }
+        )
+        isValid = false
+      }
+    }
+  }
+
+  return isValid
+}
@@ -0,0 +1,168 @@
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type {
+  PolicyFile,
+  PolicyPruneResult,
+  PruneMode,
+  UnmanagedPolicy
+} from './types.js'
+import { formatPolicyTarget, normalizePolicyContent } from './utils.js'
+
+/**
+ * Policy that only inherits the policies of the parent scopes, written by
+ * the 'reset' prune mode
+ */
+export const BASE_ONLY_POLICY = `<policies>
+  <inbound>
+    <base />
+  </inbound>
+  <backend>
+    <base />
+  </backend>
+  <outbound>
+    <base />
+  </outbound>
+  <on-error>
+    <base />
+  </on-error>
+</policies>
+`
+
+/**
+ * Find the live API and operation policies of the given APIs that have no
+ * policy file. Managed targets (`<apiId>` or `<apiId>/<operationId>`) count as
+ * having a file even if it could not be read.
+ */
+export async function findUnmanagedPolicies(
+  client: AzureApimClient,
+  policies: PolicyFile[],
+  apiIds: string[],
+  managedTargets: string[] = []
+): Promise<UnmanagedPolicy[]> {
+  const unmanaged: UnmanagedPolicy[] = []
+
+  const hasFile = (apiId: string, operationId?: string): boolean =>
+    managedTargets.includes(formatPolicyTarget({ apiId, operationId })) ||
+    policies.some(
+      (policy) =>
+        policy.apiId === apiId &&
+        policy.operationId === operationId &&
+        policy.scope === (operationId ? 'operation' : 'api')
+    )
+
+  for (const apiId of apiIds) {
+    if (!hasFile(apiId)) {
+      const live = await client.getApiPolicy(apiId)
+      if (live) {
+        unmanaged.push({ scope: 'api', apiId, live })
+      }
+    }
+
+    for (const operationId of await client.listOperations(apiId)) {
+      if (hasFile(apiId, operationId)) {
+        continue
+      }
+
+      const live = await client.getOperationPolicy(apiId, operationId)
+      if (live) {
+        unmanaged.push({ scope: 'operation', apiId, operationId, live })
+      }
+    }
+  }
+
+  return unmanaged
+}
+
+/**
+ * Find the live policies to prune. Only APIs that the repository owns, i.e.
+ * that have an API or operation policy file, are pruned; policies declared in
+ * the manifest are never pruned, even if their file could not be read, and
+ * policies that were already reset are skipped in 'reset' mode.
+ */
+export async function findPrunablePolicies(
+  client: AzureApimClient,
+  policies: PolicyFile[],
+  availableApis: string[],
+  mode: PruneMode,
+  managedTargets: string[] = []
+): Promise<UnmanagedPolicy[]> {
+  if (mode === 'none') {
+    return []
+  }
+
+  const ownedApis = [
+    ...new Set([
+      ...policies
+        .filter(
+          (policy) => policy.scope === 'api' || policy.scope === 'operation'
+        )
+        .map((policy) => policy.apiId!),
+      ...managedTargets.map((target) => target.split('/')[0])
+    ])
+  ].filter((apiId) => availableApis.includes(apiId))
+
+  const unmanaged = await findUnmanagedPolicies(
+    client,
+    policies,
+    ownedApis,
+    managedTargets
+  )
+  if (mode === 'delete') {
+    return unmanaged
+  }
+
+  const baseOnly = normalizePolicyContent(BASE_ONLY_POLICY)
+  return unmanaged.filter(
+    ({ live }) => normalizePolicyContent(live.content) !== baseOnly
+  )
+}
+
+/**
+ * Delete the prunable policies or reset them to a policy that only contains
+ * `<base />`. Returns a result per policy; failures do not stop the others.
+ */
+export async function prunePolicies(
+  client: AzureApimClient,
+  prunable: UnmanagedPolicy[],
+  mode: Exclude<PruneMode, 'none'>
+): Promise<PolicyPruneResult[]> {
+  const results: PolicyPruneResult[] = []
+
+  for (const { scope, apiId, operationId } of prunable) {
+    const target = `${scope} policy ${formatPolicyTarget({ apiId, operationId })}`
+    let result: PolicyPruneResult
+
+    if (mode === 'delete') {
+      result = operationId
+        ? await client.deleteOperationPolicy(apiId, operationId)
+        : await client.deleteApiPolicy(apiId)
+    } else {
+      const updated = operationId
+        ? await client.updateOperationPolicy(
+            apiId,
+            operationId,
+            BASE_ONLY_POLICY
+          )
+        : await client.updateApiPolicy(apiId, BASE_ONLY_POLICY)
+      result = {
+        scope,
+        apiId,
+        operationId,
+        action: 'reset',
+        pruned: updated.updated,
+        error: updated.error
+      }
+    }
+    results.push(result)
+
+    if (result.pruned) {
+      core.info(
+        result.action === 'deleted'
+          ? `Deleted ${target}, which has no policy file`
+          : `Reset ${target} to <base />, which has no policy file`
+      )
+    }
+  }
+
+  return results
+}
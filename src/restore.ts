@@ -0,0 +1,211 @@
+import * as fs from 'fs/promises'
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type {
+  PolicyFile,
+  PolicyScope,
+  PolicySnapshot,
+  PolicySnapshotEntry,
+  PolicyUpdateResult
+} from './types.js'
+import { formatPolicyTarget } from './utils.js'
+import { planPolicyChanges, reportPolicyPlan } from './plan.js'
+import { restoreSnapshotEntry } from './snapshot.js'
+
+const SCOPES: PolicyScope[] = [
+  'global',
+  'product',
+  'api',
+  'operation',
+  'fragment'
+]
+
+/**
+ * Throw if a snapshot entry is not valid
+ */
+function validateSnapshotEntry(
+  entry: PolicySnapshotEntry,
+  index: number
+): void {
+  const label = `Snapshot policy ${index + 1}`
+
+  if (!entry || !SCOPES.includes(entry.scope)) {
+    throw new Error(`${label}: scope must be one of ${SCOPES.join(', ')}`)
+  }
+  if ((entry.scope === 'api' || entry.scope === 'operation') && !entry.apiId) {
+    throw new Error(`${label}: ${entry.scope} policies must have an apiId`)
+  }
+  if (entry.scope === 'operation' && !entry.operationId) {
+    throw new Error(`${label}: operation policies must have an operationId`)
+  }
+  if (entry.scope === 'product' && !entry.productId) {
+    throw new Error(`${label}: product policies must have a productId`)
+  }
+  if (entry.scope === 'fragment' && !entry.fragmentId) {
+    throw new Error(`${label}: fragment policies must have a fragmentId`)
+  }
+  if (typeof entry.content !== 'string' && entry.content !== null) {
+    throw new Error(`${label}: content must be the policy XML or null`)
+  }
+}
+
+/**
+ * Load a snapshot file written by a deployment. Throws if the file cannot be
+ * read or is not a valid snapshot.
+ */
+export async function loadSnapshot(
+  snapshotPath: string
+): Promise<PolicySnapshot> {
+  let content: string
+  try {
+    content = await fs.readFile(snapshotPath, 'utf-8')
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`Failed to read snapshot: ${errorMessage}`)
+  }
+
+  core.info(`Loading snapshot from: ${snapshotPath}`)
+  let snapshot: PolicySnapshot | null
+  try {
+    snapshot = JSON.parse(content) as PolicySnapshot | null
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`Invalid snapshot format: ${errorMessage}`)
+  }
+
+  if (!snapshot || !Array.isArray(snapshot.policies)) {
+    throw new Error('Invalid snapshot format: missing policies list')
+  }
+  snapshot.policies.forEach(validateSnapshotEntry)
+
+  return snapshot
+}
+
+/**
+ * Select the snapshot entries to restore to a target: entries of the target
+ * (or without one) and, when APIs are given, only their API and operation
+ * policies
+ */
+export function selectSnapshotPolicies(
+  entries: PolicySnapshotEntry[],
+  target: string,
+  apis: string[] = []
+): PolicySnapshotEntry[] {
+  return entries.filter(
+    (entry) =>
+      (!entry.target || entry.target === target) &&
+      (apis.length === 0 || (!!entry.apiId && apis.includes(entry.apiId)))
+  )
+}
+
+/**
+ * Restore the policies of a snapshot through the client. The snapshot is
+ * compared with the live policies first and the changes are reported like a
+ * deployment plan; policies that already match are skipped. Policies that had
+ * no live policy in the snapshot are deleted. In dry run mode only the plan
+ * is reported.
+ */
+export async function restoreSnapshot(
+  client: AzureApimClient,
+  entries: PolicySnapshotEntry[],
+  snapshotPath: string,
+  dryRun: boolean = false
+): Promise<PolicyUpdateResult[]> {
+  // Plan the restored policies like policy files read from the snapshot
+  const policies: PolicyFile[] = entries
+    .filter((entry) => entry.content !== null)
+    .map((entry) => ({
+      filePath: snapshotPath,
+      scope: entry.scope,
+      apiId: entry.apiId,
+      operationId: entry.operationId,
+      productId: entry.productId,
+      fragmentId: entry.fragmentId,
+      content: entry.content!
+    }))
+  const plan = await planPolicyChanges(client, policies)
+  reportPolicyPlan(plan)
+
+  const deletions: PolicySnapshotEntry[] = []
+  for (const entry of entries.filter((entry) => entry.content === null)) {
+    const target = `${entry.scope} policy ${formatPolicyTarget(entry)}`
+    if (entry.scope !== 'api' && entry.scope !== 'operation') {
+      core.warning(`Skipping ${target}: it had no policy and cannot be deleted`)
+      continue
+    }
+
+    const live = entry.operationId
+      ? await client.getOperationPolicy(entry.apiId!, entry.operationId)
+      : await client.getApiPolicy(entry.apiId!)
+    if (live) {
+      core.info(`[delete] ${target}`)
+      deletions.push(entry)
+    }
+  }
+
+  if (dryRun) {
+    core.info('Dry run completed, no policies were restored')
+    return []
+  }
+
+  const results: PolicyUpdateResult[] = []
+  const restore = async (
+    entry: PolicySnapshotEntry
+  ): Promise<PolicyUpdateResult> => {
+    const { restored, error } = await restoreSnapshotEntry(client, entry)
+    const target = `${entry.scope} policy ${formatPolicyTarget(entry)}`
+    if (restored) {
+      core.info(`Restored ${target}`)
+    } else {
+      core.error(`Failed to restore ${target}: ${error || 'Unknown error'}`)
+    }
+
+    return {
+      scope: entry.scope,
+      apiId: entry.apiId,
+      operationId: entry.operationId,
+      productId: entry.productId,
+      fragmentId: entry.fragmentId,
+      updated: restored,
+      status: restored ? 'updated' : 'failed',
+      error
+    }
+  }
+
+  for (const { policy, action, live, reason } of plan) {
+    const { scope, apiId, operationId, productId, fragmentId } = policy
+    if (action === 'update' || action === 'create') {
+      results.push(
+        await restore({
+          scope,
+          apiId,
+          operationId,
+          productId,
+          fragmentId,
+          content: policy.content
+        })
+      )
+      continue
+    }
+
+    results.push({
+      scope,
+      apiId,
+      operationId,
+      productId,
+      fragmentId,
+      updated: false,
+      status: action === 'unchanged' ? 'unchanged' : 'failed',
+      etag: live?.etag,
+      error: reason
+    })
+  }
+
+  for (const entry of deletions) {
+    results.push(await restore(entry))
+  }
+
+  return results
+}
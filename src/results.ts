@@ -0,0 +1,60 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import * as core from '@actions/core'
+import type { PolicyUpdateResult, PolicyUpdateStatus } from './types.js'
+
+/**
+ * Count policy update results by status
+ */
+export function countResults(
+  results: PolicyUpdateResult[]
+): Record<PolicyUpdateStatus, number> {
+  const counts: Record<PolicyUpdateStatus, number> = {
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+    skipped: 0,
+    conflict: 0
+  }
+
+  for (const result of results) {
+    counts[result.status]++
+  }
+
+  return counts
+}
+
+/**
+ * Set the results, counts and results file outputs. The results are written
+ * as JSON to `apim-policy-results.json` in the runner's temporary directory.
+ */
+export async function setResultOutputs(
+  results: PolicyUpdateResult[]
+): Promise<void> {
+  const json = JSON.stringify(results, null, 2)
+  const counts = countResults(results)
+
+  core.setOutput('results', JSON.stringify(results))
+  core.setOutput('updated_count', counts.updated)
+  core.setOutput('unchanged_count', counts.unchanged)
+  core.setOutput('failed_count', counts.failed)
+  core.setOutput('skipped_count', counts.skipped)
+  core.setOutput('conflict_count', counts.conflict)
+
+  const resultsFile = path.join(
+    process.env.RUNNER_TEMP || os.tmpdir(),
+    'apim-policy-results.json'
+  )
+
+  try {
+    await fs.writeFile(resultsFile, `${json}\n`, 'utf-8')
+    core.setOutput('results_file', resultsFile)
+    core.info(`Policy update results written to ${resultsFile}`)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    core.warning(`Failed to write results file: ${errorMessage}`)
+    core.setOutput('results_file', '')
+  }
+}
@@ -0,0 +1,159 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import * as core from '@actions/core'
+import type { AzureApimClient } from './azure-client.js'
+import type {
+  PolicyPlanEntry,
+  PolicySnapshot,
+  PolicySnapshotEntry,
+  PolicyUpdateResult
+} from './types.js'
+import { formatPolicyTarget } from './utils.js'
+
+/**
+ * Name of the snapshot file in the runner's temporary directory
+ */
+export const SNAPSHOT_FILE_NAME = 'apim-policy-snapshot.json'
+
+/**
+ * Create snapshot entries with the live policy of every planned policy file.
+ * Policies whose target is missing are not deployed and are left out.
+ */
+export function createSnapshotEntries(
+  plan: PolicyPlanEntry[]
+): PolicySnapshotEntry[] {
+  return plan
+    .filter((entry) => entry.action !== 'missing-target')
+    .map(({ policy, live }) => ({
+      scope: policy.scope,
+      apiId: policy.apiId,
+      operationId: policy.operationId,
+      productId: policy.productId,
+      fragmentId: policy.fragmentId,
+      content: live ? live.content : null,
+      etag: live?.etag
+    }))
+}
+
+/**
+ * Write the snapshot as JSON to `apim-policy-snapshot.json` in the runner's
+ * temporary directory. Returns the path, or an empty string if the file
+ * cannot be written.
+ */
+export async function writeSnapshotFile(
+  snapshot: PolicySnapshot
+): Promise<string> {
+  const snapshotFile = path.join(
+    process.env.RUNNER_TEMP || os.tmpdir(),
+    SNAPSHOT_FILE_NAME
+  )
+
+  try {
+    await fs.writeFile(
+      snapshotFile,
+      `${JSON.stringify(snapshot, null, 2)}\n`,
+      'utf-8'
+    )
+    core.info(`Policy snapshot written to ${snapshotFile}`)
+    return snapshotFile
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    core.warning(`Failed to write snapshot file: ${errorMessage}`)
+    return ''
+  }
+}
+
+/**
+ * Write a snapshot entry back to the APIM service. Policies that did not
+ * exist before are deleted; only API and operation policies can be deleted.
+ */
+export async function restoreSnapshotEntry(
+  client: AzureApimClient,
+  entry: PolicySnapshotEntry
+): Promise<{ restored: boolean; error?: string }> {
+  if (entry.content === null) {
+    if (entry.scope !== 'api' && entry.scope !== 'operation') {
+      return {
+        restored: false,
+        error: `The ${entry.scope} policy did not exist before and cannot be deleted`
+      }
+    }
+
+    const deleted = entry.operationId
+      ? await client.deleteOperationPolicy(entry.apiId!, entry.operationId)
+      : await client.deleteApiPolicy(entry.apiId!)
+    return { restored: deleted.pruned, error: deleted.error }
+  }
+
+  let result: PolicyUpdateResult
+  switch (entry.scope) {
+    case 'global':
+      result = await client.updateServicePolicy(entry.content)
+      break
+    case 'product':
+      result = await client.updateProductPolicy(entry.productId!, entry.content)
+      break
+    case 'fragment':
+      result = await client.updatePolicyFragment(
+        entry.fragmentId!,
+        entry.content
+      )
+      break
+    case 'api':
+      result = await client.updateApiPolicy(entry.apiId!, entry.content)
+      break
+    case 'operation':
+      result = await client.updateOperationPolicy(
+        entry.apiId!,
+        entry.operationId!,
+        entry.content
+      )
+      break
+  }
+
+  return { restored: result.updated, error: result.error }
+}
+
+/**
+ * Restore the updated policies from their snapshot entries, in reverse
+ * deployment order so policies are restored before the fragments they
+ * include. Returns the results with `rolledBack` set on every updated policy
+ * and the error of a failed rollback.
+ */
+export async function rollbackPolicies(
+  client: AzureApimClient,
+  entries: PolicySnapshotEntry[],
+  results: PolicyUpdateResult[]
+): Promise<PolicyUpdateResult[]> {
+  const rolledBack = [...results]
+
+  for (let index = results.length - 1; index >= 0; index--) {
+    const result = results[index]
+    if (!result.updated) {
+      continue
+    }
+
+    const target = `${result.scope} policy ${formatPolicyTarget(result)}`
+    const entry = entries.find(
+      (candidate) =>
+        candidate.scope === result.scope &&
+        formatPolicyTarget(candidate) === formatPolicyTarget(result)
+    )
+    const { restored, error } = entry
+      ? await restoreSnapshotEntry(client, entry)
+      : { restored: false, error: 'No snapshot of the policy' }
+
+    if (restored) {
+      core.info(`Rolled back ${target} from the snapshot`)
+      rolledBack[index] = { ...result, rolledBack: true }
+    } else {
+      const errorMessage = `Rollback failed: ${error || 'Unknown error'}`
+      core.error(`Failed to roll back ${target}: ${error || 'Unknown error'}`)
+      rolledBack[index] = { ...result, rolledBack: false, error: errorMessage }
+    }
+  }
+
+  return rolledBack
+}
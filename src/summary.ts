@@ -0,0 +1,165 @@
+import * as path from 'path'
+import * as core from '@actions/core'
+import type {
+  DriftEntry,
+  PolicyDeploymentEntry,
+  PolicyPlanEntry
+} from './types.js'
+import { formatPolicyTarget } from './utils.js'
+import { countResults } from './results.js'
+
+/**
+ * Escape text for use inside HTML elements of the job summary
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Write the per-policy diffs of a plan to the job summary, headed with the
+ * target name when deploying to several targets
+ */
+export async function writePlanSummary(
+  entries: PolicyPlanEntry[],
+  target?: string
+): Promise<void> {
+  try {
+    core.summary.addHeading(
+      target ? `APIM policy changes: ${target}` : 'APIM policy changes',
+      2
+    )
+
+    const changed = entries.filter((entry) => entry.diff)
+    if (changed.length === 0) {
+      core.summary.addRaw('No policy changes.', true)
+    }
+
+    for (const entry of changed) {
+      core.summary
+        .addHeading(
+          `${entry.action}: ${entry.policy.scope} policy ${formatPolicyTarget(entry.policy)}`,
+          3
+        )
+        .addCodeBlock(escapeHtml(entry.diff!), 'diff')
+    }
+
+    await core.summary.write()
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    core.warning(`Failed to write job summary: ${errorMessage}`)
+  }
+}
+
+/**
+ * Write a table with the deployment result of every policy file to the job
+ * summary, followed by totals and the referenced APIs that do not exist in
+ * the APIM service
+ */
+export async function writeDeploymentSummary(
+  entries: PolicyDeploymentEntry[],
+  availableApis: string[],
+  target?: string
+): Promise<void> {
+  try {
+    core.summary.addHeading(
+      target ? `APIM policy deployment: ${target}` : 'APIM policy deployment',
+      2
+    )
+
+    const header = [
+      'Scope',
+      'API',
+      'Operation',
+      'File',
+      'Result',
+      'ETag',
+      'Error'
+    ].map((data) => ({ data, header: true }))
+    const rows = entries.map(({ policy, result }) => {
+      const id = policy.productId || policy.fragmentId
+      return [
+        id ? `${policy.scope}: ${id}` : policy.scope,
+        policy.apiId || '',
+        policy.operationId || '',
+        path.relative(process.cwd(), policy.filePath).replace(/\\/g, '/'),
+        result.status,
+        result.etag || '',
+        result.error || ''
+      ].map(escapeHtml)
+    })
+    core.summary.addTable([header, ...rows])
+
+    const counts = countResults(entries.map(({ result }) => result))
+    core.summary.addRaw(
+      `Totals: ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.failed} failed, ${counts.skipped} skipped, ${counts.conflict} conflicts`,
+      true
+    )
+
+    const missingApis = [
+      ...new Set(
+        entries
+          .map(({ policy }) => policy.apiId)
+          .filter((apiId): apiId is string => !!apiId)
+          .filter((apiId) => !availableApis.includes(apiId))
+      )
+    ]
+    if (missingApis.length > 0) {
+      core.summary
+        .addHeading('APIs not found in the service', 3)
+        .addList(missingApis.map(escapeHtml))
+    }
+
+    await core.summary.write()
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    core.warning(`Failed to write job summary: ${errorMessage}`)
+  }
+}
+
+/**
+ * Write a table with every drifted policy to the job summary, followed by the
+ * diffs of the policies that differ from the repository
+ */
+export async function writeDriftSummary(
+  entries: DriftEntry[],
+  target?: string
+): Promise<void> {
+  try {
+    core.summary.addHeading(
+      target ? `APIM policy drift: ${target}` : 'APIM policy drift',
+      2
+    )
+
+    if (entries.length === 0) {
+      core.summary.addRaw('No drift detected.', true)
+    } else {
+      const header = ['Drift', 'Scope', 'Target', 'File', 'Reason'].map(
+        (data) => ({ data, header: true })
+      )
+      const rows = entries.map((entry) =>
+        [
+          entry.kind,
+          entry.scope,
+          formatPolicyTarget(entry),
+          entry.filePath || '',
+          entry.reason || ''
+        ].map(escapeHtml)
+      )
+      core.summary.addTable([header, ...rows])
+    }
+
+    for (const entry of entries.filter((entry) => entry.kind === 'differs')) {
+      core.summary
+        .addHeading(`${entry.scope} policy ${formatPolicyTarget(entry)}`, 3)
+        .addCodeBlock(escapeHtml(entry.diff!), 'diff')
+    }
+
+    await core.summary.write()
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    core.warning(`Failed to write job summary: ${errorMessage}`)
+  }
+}
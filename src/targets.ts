@@ -0,0 +1,131 @@
+import * as core from '@actions/core'
+import type { ApimConfig, ApimTarget, ManifestEnvironment } from './types.js'
+
+/**
+ * APIM service to deploy to, with the configuration for its client
+ */
+export interface DeploymentTarget {
+  /** Target name used in logs and results */
+  name: string
+  /** Configuration with the target's subscription, resource group and service */
+  config: ApimConfig
+}
+
+/**
+ * Throw if the configuration has no subscription, resource group or service
+ */
+function validateTargetConfig(config: ApimConfig): void {
+  const suffix = (field: string): string =>
+    config.environment
+      ? ` when environment ${config.environment} has no ${field}`
+      : ''
+
+  if (!config.subscriptionId) {
+    throw new Error(
+      `subscription_id input is required${suffix('subscriptionId')}`
+    )
+  }
+  if (!config.resourceGroupName) {
+    throw new Error(
+      `resource_group input is required${suffix('resourceGroupName')}`
+    )
+  }
+  if (!config.serviceName) {
+    throw new Error(`apim_name input is required${suffix('serviceName')}`)
+  }
+}
+
+/**
+ * Get the targets of a manifest environment: its own targets or, when it sets
+ * no APIM service, the manifest's targets. Throws if the environment sets an
+ * APIM service and targets are also listed in the targets input or the
+ * manifest, since they would replace the environment's service.
+ */
+export function selectEnvironmentTargets(
+  config: ApimConfig,
+  name: string,
+  environment: ManifestEnvironment,
+  manifestTargets?: ApimTarget[]
+): ApimTarget[] | undefined {
+  if (environment.targets?.length) {
+    return environment.targets
+  }
+  if (
+    !environment.subscriptionId &&
+    !environment.resourceGroupName &&
+    !environment.serviceName
+  ) {
+    return manifestTargets
+  }
+
+  if (config.targets?.length) {
+    throw new Error(
+      `Environment ${name} sets its own APIM service and cannot be combined with the targets input`
+    )
+  }
+  if (manifestTargets?.length) {
+    throw new Error(
+      `Environment ${name} sets its own APIM service but the policy manifest lists targets; list the environment's services in its own targets`
+    )
+  }
+
+  return undefined
+}
+
+/**
+ * Resolve the APIM services to deploy to. Targets come from the targets input
+ * or the manifest, and default to the subscription and resource group of the
+ * configuration. Without targets the configured APIM service is the only one.
+ */
+export function resolveTargets(
+  config: ApimConfig,
+  manifestTargets?: ApimTarget[]
+): DeploymentTarget[] {
+  const inputTargets = config.targets || []
+  if (inputTargets.length > 0 && manifestTargets?.length) {
+    throw new Error(
+      'Targets are listed in both the targets input and the policy manifest'
+    )
+  }
+
+  const entries = inputTargets.length > 0 ? inputTargets : manifestTargets
+  if (!entries?.length) {
+    validateTargetConfig(config)
+    return [{ name: config.serviceName, config }]
+  }
+
+  const targets = entries.map((entry, index) => {
+    if (!entry?.serviceName) {
+      throw new Error(`Target ${index + 1} must have a serviceName`)
+    }
+
+    const name = entry.name || entry.serviceName
+    const targetConfig: ApimConfig = {
+      ...config,
+      subscriptionId: entry.subscriptionId || config.subscriptionId,
+      resourceGroupName: entry.resourceGroupName || config.resourceGroupName,
+      serviceName: entry.serviceName
+    }
+    if (!targetConfig.subscriptionId) {
+      throw new Error(
+        `Target ${name} has no subscriptionId and the subscription_id input is not set`
+      )
+    }
+    if (!targetConfig.resourceGroupName) {
+      throw new Error(
+        `Target ${name} has no resourceGroupName and the resource_group input is not set`
+      )
+    }
+
+    return { name, config: targetConfig }
+  })
+
+  const names = targets.map((target) => target.name)
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+  if (duplicate) {
+    throw new Error(`Target ${duplicate} is listed more than once`)
+  }
+
+  core.info(`Deploying to ${targets.length} targets: ${names.join(', ')}`)
+  return targets
+}
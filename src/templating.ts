@@ -0,0 +1,121 @@
+import * as fs from 'fs/promises'
+import { parse as parseYaml } from 'yaml'
+import * as core from '@actions/core'
+import type { TemplatePlaceholder } from './types.js'
+
+/**
+ * `${NAME}` placeholder, `${raw:NAME}` for a value inserted without XML
+ * escaping, or `$${NAME}` for a literal `${NAME}`
+ */
+const PLACEHOLDER_PATTERN = /\$(\$?)\{(raw:)?([A-Za-z_][A-Za-z0-9_]*)\}/g
+
+/**
+ * Escape the characters with a meaning in XML text and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Policy content with its template placeholders replaced
+ */
+export interface RenderedTemplate {
+  /** Content with every resolved placeholder replaced */
+  content: string
+  /** Placeholders without a value, left unchanged in the content */
+  unresolved: TemplatePlaceholder[]
+}
+
+/**
+ * Load the template values file: a YAML or JSON map of placeholder names to
+ * string, number or boolean values
+ */
+export async function loadTemplateValues(
+  valuesPath?: string
+): Promise<Record<string, string>> {
+  if (!valuesPath) {
+    return {}
+  }
+
+  let content: string
+  try {
+    content = await fs.readFile(valuesPath, 'utf-8')
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    throw new Error(`Failed to read template values: ${errorMessage}`)
+  }
+
+  core.info(`Loading template values from: ${valuesPath}`)
+  return toTemplateValues(parseYaml(content) ?? {})
+}
+
+/**
+ * Convert a map of string, number or boolean values to template values
+ */
+export function toTemplateValues(values: unknown): Record<string, string> {
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    throw new Error('Invalid template values format: expected a map of values')
+  }
+
+  const templateValues: Record<string, string> = {}
+  for (const [name, value] of Object.entries(values)) {
+    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new Error(
+        `Template value ${name} must be a string, number or boolean`
+      )
+    }
+    templateValues[name] = String(value)
+  }
+
+  return templateValues
+}
+
+/**
+ * Replace `${NAME}` placeholders with the XML-escaped template value of that
+ * name, falling back to the environment variable. `${raw:NAME}` inserts the
+ * value as it is, e.g. for XML fragments. APIM `{{named-value}}` references are
+ * not placeholders and stay as they are.
+ */
+export function renderTemplate(
+  content: string,
+  values: Record<string, string>,
+  env: NodeJS.ProcessEnv = process.env
+): RenderedTemplate {
+  const unresolved: TemplatePlaceholder[] = []
+
+  const rendered = content.replace(
+    PLACEHOLDER_PATTERN,
+    (
+      match,
+      escape: string,
+      raw: string | undefined,
+      name: string,
+      offset: number
+    ) => {
+      if (escape) {
+        return match.slice(1)
+      }
+
+      const value = Object.hasOwn(values, name) ? values[name] : env[name]
+      if (value !== undefined) {
+        return raw ? value : escapeXml(value)
+      }
+
+      const lines = content.slice(0, offset).split(/\r\n?|\n/)
+      unresolved.push({
+        name,
+        line: lines.length,
+        column: lines[lines.length - 1].length + 1
+      })
+      return match
+    }
+  )
+
+  return { content: rendered, unresolved }
+}
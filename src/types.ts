@@ -10,22 +10,127 @@ export interface ApimConfig {
   serviceName: string
   /** Optional path to policy manifest file */
   policyManifestPath?: string
+  /** Only report what would change without updating any policy */
+  dryRun?: boolean
+  /** When failed policy updates fail the workflow run (default 'any') */
+  failOn?: FailurePolicy
+  /** Optional path to the lint config file */
+  lintConfigPath?: string
+  /** Secret values for named values, by key (from named_value_secrets) */
+  namedValueSecrets?: Record<string, string>
+  /** Optional path to the template values file */
+  templateValuesPath?: string
+  /** Optional manifest environment to deploy */
+  environment?: string
+  /** APIM services to deploy to instead of a single one (from targets) */
+  targets?: ApimTarget[]
+  /** Stop the remaining targets if the first target fails */
+  canary?: boolean
+  /** What the action does (default 'deploy') */
+  mode?: ActionMode
+  /** Directory to export policies into (export mode, default '.') */
+  exportDir?: string
+  /** Path of the policy manifest to generate (export mode, optional) */
+  exportManifestPath?: string
+  /** How to prune live policies of owned APIs without a file (default 'none') */
+  prune?: PruneMode
+  /** Restore the updated policies from the snapshot when an update fails */
+  rollbackOnFailure?: boolean
+  /** Path of the snapshot file to restore (restore mode) */
+  snapshotPath?: string
+  /** Only restore the policies of these APIs (restore mode, default all) */
+  restoreApis?: string[]
+  /** What to do when a live policy changed during the run (default 'abort') */
+  onConflict?: ConflictMode
 }
 
+/**
+ * What the action does: 'deploy' repository policies to APIM, 'export' the
+ * live policies of APIM into the repository layout, 'drift-check' the live
+ * policies against the repository, or 'restore' the policies of a snapshot
+ */
+export type ActionMode = 'deploy' | 'export' | 'drift-check' | 'restore'
+
+/**
+ * APIM service to deploy the policies to
+ */
+export interface ApimTarget {
+  /** Name used in logs and results (defaults to the service name) */
+  name?: string
+  /** Azure subscription ID (defaults to the subscription_id input) */
+  subscriptionId?: string
+  /** Resource group name (defaults to the resource_group input) */
+  resourceGroupName?: string
+  /** API Management service name */
+  serviceName: string
+}
+
+/**
+ * When failed policy updates fail the workflow run: 'any' on the first
+ * failure, 'all' only when no attempted update succeeded, or 'never'
+ */
+export type FailurePolicy = 'any' | 'all' | 'never'
+
+/**
+ * How live API and operation policies without a policy file are pruned:
+ * 'none' keeps them, 'delete' deletes them and 'reset' replaces them with a
+ * policy that only contains `<base />`
+ */
+export type PruneMode = 'none' | 'delete' | 'reset'
+
+/**
+ * What to do when an API or operation policy changed in the service after it
+ * was compared: 'abort' reports a conflict and skips the remaining updates of
+ * the target, 'force' overwrites the live policy without an ETag check
+ */
+export type ConflictMode = 'abort' | 'force'
+
+/**
+ * Policy scope: 'global' for the service-level policy that applies to all
+ * APIs, 'product', 'api' or 'operation', or 'fragment' for a reusable policy
+ * fragment referenced through `<include-fragment>`
+ */
+export type PolicyScope =
+  | 'global'
+  | 'product'
+  | 'api'
+  | 'operation'
+  | 'fragment'
+
 /**
  * Policy file information
  */
 export interface PolicyFile {
   /** Path to the policy XML file */
   filePath: string
-  /** API ID */
-  apiId: string
-  /** Operation ID (undefined for API-level policies) */
+  /** API ID (undefined for global and product policies) */
+  apiId?: string
+  /** Operation ID (only for operation-level policies) */
   operationId?: string
-  /** Policy scope: 'api' or 'operation' */
-  scope: 'api' | 'operation'
+  /** Product ID (only for product policies) */
+  productId?: string
+  /** Fragment ID (only for policy fragments) */
+  fragmentId?: string
+  /** Policy scope */
+  scope: PolicyScope
   /** Policy XML content */
   content: string
+  /** Sections allowed to omit `<base />` (from the manifest's baseOverrides) */
+  baseOverrides?: string[]
+  /** `${NAME}` placeholders without a template value */
+  unresolvedPlaceholders?: TemplatePlaceholder[]
+}
+
+/**
+ * `${NAME}` template placeholder in a policy file
+ */
+export interface TemplatePlaceholder {
+  /** Placeholder name */
+  name: string
+  /** 1-based line of the placeholder */
+  line: number
+  /** 1-based column of the placeholder */
+  column: number
 }
 
 /**
@@ -44,24 +149,403 @@ export interface PolicyManifestEntry {
  * Policy manifest structure
  */
 export interface PolicyManifest {
+  /** Path to the global (all APIs) policy file */
+  globalPolicyPath?: string
+  /** Product policy file paths indexed by product ID */
+  products?: Record<string, string>
+  /** Policy fragment file paths indexed by fragment ID */
+  fragments?: Record<string, string>
   /** Policy entries indexed by API ID */
-  policies: Record<string, PolicyManifestEntry>
+  policies?: Record<string, PolicyManifestEntry>
+  /**
+   * Sections of API (`apiId`) and operation (`apiId/operationId`) policies
+   * that intentionally omit `<base />`
+   */
+  baseOverrides?: Record<string, string[]>
+  /** Named value definitions indexed by named value ID */
+  namedValues?: Record<string, NamedValueManifestEntry>
+  /** Backend definitions indexed by backend ID */
+  backends?: Record<string, BackendManifestEntry>
+  /** Environment overlays indexed by environment name */
+  environments?: Record<string, ManifestEnvironment>
+  /** APIM services to deploy to, in order */
+  targets?: ApimTarget[]
+}
+
+/**
+ * Environment overlay of the policy manifest, selected by the environment
+ * input
+ */
+export interface ManifestEnvironment {
+  /** Azure subscription ID of the environment's APIM service */
+  subscriptionId?: string
+  /** Resource group name of the environment's APIM service */
+  resourceGroupName?: string
+  /** APIM service name of the environment */
+  serviceName?: string
+  /**
+   * Policy file paths replacing those of the manifest, keyed by target
+   * (`global`, `products/<id>`, `fragments/<id>`, `<apiId>` or
+   * `<apiId>/<operationId>`)
+   */
+  policyPaths?: Record<string, string>
+  /** API IDs whose policies are not deployed to the environment */
+  excludeApis?: string[]
+  /** Values for `${NAME}` placeholders, overriding the template values file */
+  templateValues?: Record<string, string | number | boolean>
+  /** APIM services of the environment, replacing the manifest's targets */
+  targets?: ApimTarget[]
+}
+
+/**
+ * Backend entry of the policy manifest
+ */
+export interface BackendManifestEntry {
+  /** Runtime URL of the backend */
+  url: string
+  /** Backend protocol (default 'http') */
+  protocol?: 'http' | 'soap'
+  /** Backend description */
+  description?: string
+  /** Credentials sent to the backend */
+  credentials?: {
+    /** Header values by header name, may reference named values */
+    header?: Record<string, string[]>
+  }
+  /** Circuit breaker configuration */
+  circuitBreaker?: {
+    rules: BackendCircuitBreakerRule[]
+  }
+}
+
+/**
+ * Circuit breaker rule of a backend
+ */
+export interface BackendCircuitBreakerRule {
+  /** Rule name */
+  name: string
+  /** Conditions that trip the circuit breaker */
+  failureCondition: {
+    /** Number of failures within the interval */
+    count?: number
+    /** Percentage of failures within the interval */
+    percentage?: number
+    /** ISO 8601 interval in which failures are counted, e.g. PT1M */
+    interval: string
+    /** Status code ranges counted as failures */
+    statusCodeRanges?: { min: number; max: number }[]
+    /** Error reasons counted as failures */
+    errorReasons?: string[]
+  }
+  /** ISO 8601 duration the circuit stays open, e.g. PT1M */
+  tripDuration: string
+  /** Whether to honor the backend's Retry-After header */
+  acceptRetryAfter?: boolean
+}
+
+/**
+ * Backend to create or update in the APIM service
+ */
+export interface BackendDefinition extends BackendManifestEntry {
+  /** Backend ID */
+  backendId: string
+}
+
+/**
+ * Result of creating or updating a backend
+ */
+export interface BackendUpdateResult {
+  /** Backend ID */
+  backendId: string
+  /** Whether the backend was created or updated */
+  updated: boolean
+  /** Error message if the update failed */
+  error?: string
+}
+
+/**
+ * Named value entry of the policy manifest. Exactly one of `value`,
+ * `valueFromEnv`, `valueFromInput` or `keyVaultSecretId` must be set.
+ */
+export interface NamedValueManifestEntry {
+  /** Name used in `{{...}}` references (defaults to the named value ID) */
+  displayName?: string
+  /** Plain value stored in the manifest */
+  value?: string
+  /** Environment variable holding a secret value */
+  valueFromEnv?: string
+  /** Key in the named_value_secrets input holding a secret value */
+  valueFromInput?: string
+  /** Key Vault secret identifier, e.g. https://vault/secrets/name */
+  keyVaultSecretId?: string
+  /** Client ID of the user-assigned identity used to read Key Vault */
+  keyVaultIdentityClientId?: string
+  /** Store a plain value as a secret */
+  secret?: boolean
+  /** Named value tags */
+  tags?: string[]
 }
 
+/**
+ * Resolved named value to create or update in the APIM service
+ */
+export interface NamedValueDefinition {
+  /** Named value ID */
+  namedValueId: string
+  /** Name used in `{{...}}` references */
+  displayName: string
+  /** Value (not set for Key Vault named values) */
+  value?: string
+  /** Whether the value is a secret */
+  secret: boolean
+  /** Key Vault secret reference */
+  keyVault?: {
+    secretIdentifier: string
+    identityClientId?: string
+  }
+  /** Named value tags */
+  tags?: string[]
+}
+
+/**
+ * Result of creating or updating a named value
+ */
+export interface NamedValueUpdateResult {
+  /** Named value ID */
+  namedValueId: string
+  /** Whether the named value was created or updated */
+  updated: boolean
+  /** Error message if the update failed */
+  error?: string
+}
+
+/**
+ * Severity of a lint rule: 'error' blocks deployment, 'warn' is reported only
+ * and 'off' disables the rule
+ */
+export type LintSeverity = 'error' | 'warn' | 'off'
+
+/**
+ * Built-in lint rules: 'require-base' requires `<base />` in every section,
+ * 'forbidden-elements' and 'required-elements' check for the policy elements
+ * listed in `elements`
+ */
+export type LintRuleName =
+  | 'require-base'
+  | 'forbidden-elements'
+  | 'required-elements'
+
+/**
+ * Lint rule entry of the lint config file
+ */
+export interface LintRuleConfig {
+  /** Built-in rule to run */
+  rule: LintRuleName
+  /** Rule severity */
+  severity: LintSeverity
+  /** Only lint policies of these scopes (default all) */
+  scopes?: PolicyScope[]
+  /** Only lint API and operation policies of these APIs (default all) */
+  apis?: string[]
+  /** Policy element names for 'forbidden-elements' and 'required-elements' */
+  elements?: string[]
+}
+
+/**
+ * Lint config file structure
+ */
+export interface LintConfig {
+  /** Lint rules, applied in order */
+  rules: LintRuleConfig[]
+}
+
+/**
+ * Outcome of a policy update: 'updated' when the policy was written,
+ * 'unchanged' when the live policy already matched, 'failed' on error,
+ * 'skipped' when the update was not attempted, e.g. because a fragment it
+ * depends on failed, and 'conflict' when the live policy changed after it was
+ * compared (ETag mismatch)
+ */
+export type PolicyUpdateStatus =
+  | 'updated'
+  | 'unchanged'
+  | 'failed'
+  | 'skipped'
+  | 'conflict'
+
 /**
  * Policy update result
  */
 export interface PolicyUpdateResult {
-  /** API ID */
-  apiId: string
-  /** Operation ID (undefined for API-level policies) */
+  /** Policy scope */
+  scope: PolicyScope
+  /** API ID (undefined for global and product policies) */
+  apiId?: string
+  /** Operation ID (only for operation-level policies) */
   operationId?: string
+  /** Product ID (only for product policies) */
+  productId?: string
+  /** Fragment ID (only for policy fragments) */
+  fragmentId?: string
   /** Whether the policy was updated */
   updated: boolean
+  /** Outcome of the update */
+  status: PolicyUpdateStatus
   /** ETag of the updated resource */
   etag?: string
   /** Error message if update failed */
   error?: string
+  /** Name of the APIM target (only when deploying to several targets) */
+  target?: string
+  /** Whether the update was reverted by rollback_on_failure */
+  rolledBack?: boolean
+}
+
+/**
+ * Policy currently deployed in the APIM service
+ */
+export interface LivePolicy {
+  /** Policy XML content as returned by Azure */
+  content: string
+  /** ETag of the policy resource */
+  etag?: string
+}
+
+/**
+ * Planned change for a policy file: 'create' when the target has no policy
+ * yet, 'update' when the content differs, 'unchanged' when it matches and
+ * 'missing-target' when the product, API or operation does not exist
+ */
+export type PolicyChangeAction =
+  | 'create'
+  | 'update'
+  | 'unchanged'
+  | 'missing-target'
+
+/**
+ * Plan entry describing how a policy file compares to the live policy
+ */
+export interface PolicyPlanEntry {
+  /** Policy file from the repository */
+  policy: PolicyFile
+  /** Planned change */
+  action: PolicyChangeAction
+  /** Live policy, if one exists */
+  live?: LivePolicy
+  /** Reason the target is missing (only for 'missing-target') */
+  reason?: string
+  /** Unified diff from the live policy to the repository policy */
+  diff?: string
+}
+
+/**
+ * Kind of drift between the APIM service and the repository: 'differs' when
+ * the live policy differs from its file, 'live-only' when a live policy has no
+ * file, 'repo-only' when a file has no live policy and 'missing-target' when
+ * the product, API or operation of a file does not exist
+ */
+export type DriftKind = 'differs' | 'live-only' | 'repo-only' | 'missing-target'
+
+/**
+ * Policy that drifted from the repository
+ */
+export interface DriftEntry {
+  /** Kind of drift */
+  kind: DriftKind
+  /** Policy scope */
+  scope: PolicyScope
+  /** API ID (undefined for global and product policies) */
+  apiId?: string
+  /** Operation ID (only for operation-level policies) */
+  operationId?: string
+  /** Product ID (only for product policies) */
+  productId?: string
+  /** Fragment ID (only for policy fragments) */
+  fragmentId?: string
+  /** Policy file from the repository (undefined for 'live-only') */
+  filePath?: string
+  /** Reason the target is missing (only for 'missing-target') */
+  reason?: string
+  /** Unified diff from the live policy to the repository policy */
+  diff?: string
+  /** Name of the APIM target (only when checking several targets) */
+  target?: string
+}
+
+/**
+ * Live API or operation policy that has no policy file in the repository
+ */
+export interface UnmanagedPolicy {
+  /** Policy scope */
+  scope: 'api' | 'operation'
+  /** API ID */
+  apiId: string
+  /** Operation ID (only for operation-level policies) */
+  operationId?: string
+  /** Live policy */
+  live: LivePolicy
+}
+
+/**
+ * Result of pruning a live policy
+ */
+export interface PolicyPruneResult {
+  /** Policy scope */
+  scope: 'api' | 'operation'
+  /** API ID */
+  apiId: string
+  /** Operation ID (only for operation-level policies) */
+  operationId?: string
+  /** How the policy was pruned */
+  action: 'deleted' | 'reset'
+  /** Whether the policy was pruned */
+  pruned: boolean
+  /** Error message if pruning failed */
+  error?: string
+  /** Name of the APIM target (only when deploying to several targets) */
+  target?: string
+}
+
+/**
+ * Live policy of a deployed policy file, saved before the deployment
+ */
+export interface PolicySnapshotEntry {
+  /** Policy scope */
+  scope: PolicyScope
+  /** API ID (undefined for global and product policies) */
+  apiId?: string
+  /** Operation ID (only for operation-level policies) */
+  operationId?: string
+  /** Product ID (only for product policies) */
+  productId?: string
+  /** Fragment ID (only for policy fragments) */
+  fragmentId?: string
+  /** Live policy XML, or null if the target had no policy */
+  content: string | null
+  /** ETag of the live policy */
+  etag?: string
+  /** Name of the APIM target (only when deploying to several targets) */
+  target?: string
+}
+
+/**
+ * Live policies saved before a deployment
+ */
+export interface PolicySnapshot {
+  /** ISO timestamp of the snapshot */
+  createdAt: string
+  /** Live policy of every deployed policy file */
+  policies: PolicySnapshotEntry[]
+}
+
+/**
+ * Policy file together with the result of deploying it
+ */
+export interface PolicyDeploymentEntry {
+  /** Policy file from the repository */
+  policy: PolicyFile
+  /** Result of the update */
+  result: PolicyUpdateResult
 }
 
 /**
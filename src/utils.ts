@@ -1,61 +1,347 @@
 import * as core from '@actions/core'
-import type { ApimConfig } from './types.js'
+import type {
+  ActionMode,
+  ApimConfig,
+  ApimTarget,
+  ConflictMode,
+  FailurePolicy,
+  PolicyFile,
+  PruneMode
+} from './types.js'
+import { canonicalizeXml, parseXml, XmlParseError } from './xml.js'
 
 /**
  * Parse and validate action inputs
  */
 export function parseInputs(): ApimConfig {
-  const subscriptionId = core.getInput('subscription_id', { required: true })
-  const resourceGroupName = core.getInput('resource_group', { required: true })
-  const serviceName = core.getInput('apim_name', { required: true })
+  // The targets input or the manifest may set the APIM services instead of
+  // the inputs; resolveTargets checks them once the manifest is loaded
+  const environment = core.getInput('environment') || undefined
   const policyManifestPath = core.getInput('policy_manifest_path') || undefined
+  const targets = parseTargetsInput('targets')
+  const required = !environment && !policyManifestPath && targets.length === 0
+  const subscriptionId = core.getInput('subscription_id', { required })
+  const resourceGroupName = core.getInput('resource_group', { required })
+  const serviceName = core.getInput('apim_name', { required })
+  const dryRun = parseBooleanInput('dry_run')
+  const failOn = parseFailurePolicyInput('fail_on')
+  const lintConfigPath = core.getInput('lint_config_path') || undefined
+  const namedValueSecrets = parseSecretsInput('named_value_secrets')
+  const templateValuesPath = core.getInput('template_values_path') || undefined
+  const canary = parseBooleanInput('canary')
+  const mode = parseModeInput('mode')
+  const exportDir = core.getInput('export_dir') || undefined
+  const exportManifestPath = core.getInput('export_manifest_path') || undefined
+  const prune = parsePruneInput('prune')
+  const rollbackOnFailure = parseBooleanInput('rollback_on_failure')
+  const snapshotPath = core.getInput('snapshot_path') || undefined
+  const restoreApis = parseListInput('restore_apis')
+  const onConflict = parseConflictInput('on_conflict')
 
-  if (!subscriptionId) {
-    throw new Error('subscription_id input is required')
+  if (environment && !policyManifestPath) {
+    throw new Error('environment input requires policy_manifest_path')
   }
-  if (!resourceGroupName) {
-    throw new Error('resource_group input is required')
+  if (mode === 'restore' && !snapshotPath) {
+    throw new Error('restore mode requires snapshot_path')
   }
-  if (!serviceName) {
-    throw new Error('apim_name input is required')
+  if (required) {
+    if (!subscriptionId) {
+      throw new Error('subscription_id input is required')
+    }
+    if (!resourceGroupName) {
+      throw new Error('resource_group input is required')
+    }
+    if (!serviceName) {
+      throw new Error('apim_name input is required')
+    }
   }
 
   core.info('Configuration loaded:')
+  core.info(`  Mode: ${mode}`)
   core.info(`  Subscription ID: ${subscriptionId}`)
   core.info(`  Resource Group: ${resourceGroupName}`)
   core.info(`  APIM Service: ${serviceName}`)
   if (policyManifestPath) {
     core.info(`  Policy Manifest: ${policyManifestPath}`)
   }
+  if (dryRun) {
+    core.info('  Dry Run: enabled (no policies will be updated)')
+  }
+  core.info(`  Fail On: ${failOn}`)
+  if (lintConfigPath) {
+    core.info(`  Lint Config: ${lintConfigPath}`)
+  }
+  if (templateValuesPath) {
+    core.info(`  Template Values: ${templateValuesPath}`)
+  }
+  if (environment) {
+    core.info(`  Environment: ${environment}`)
+  }
+  if (targets.length > 0) {
+    core.info(
+      `  Targets: ${targets.map((target) => target.serviceName).join(', ')}`
+    )
+  }
+  if (canary) {
+    core.info('  Canary: enabled (stop after a failed first target)')
+  }
+  if (snapshotPath) {
+    core.info(`  Snapshot: ${snapshotPath}`)
+  }
+  if (restoreApis.length > 0) {
+    core.info(`  Restore APIs: ${restoreApis.join(', ')}`)
+  }
+  if (rollbackOnFailure) {
+    core.info('  Rollback on failure: enabled (restore updated policies)')
+  }
+  if (prune !== 'none') {
+    core.info(`  Prune: ${prune} (live policies of owned APIs without a file)`)
+  }
+  if (onConflict === 'force') {
+    core.info('  On conflict: force (overwrite without an ETag check)')
+  }
 
   return {
     subscriptionId,
     resourceGroupName,
     serviceName,
-    policyManifestPath
+    policyManifestPath,
+    dryRun,
+    failOn,
+    lintConfigPath,
+    namedValueSecrets,
+    templateValuesPath,
+    environment,
+    targets,
+    canary,
+    mode,
+    exportDir,
+    exportManifestPath,
+    prune,
+    rollbackOnFailure,
+    snapshotPath,
+    restoreApis,
+    onConflict
   }
 }
 
 /**
- * Validate XML content
+ * Parse the mode input: 'deploy' (default), 'export', 'drift-check' or
+ * 'restore'
  */
-export function validateXmlContent(content: string): boolean {
-  if (!content || content.trim().length === 0) {
-    return false
+export function parseModeInput(name: string): ActionMode {
+  const value = core.getInput(name).trim().toLowerCase() || 'deploy'
+
+  if (
+    value === 'deploy' ||
+    value === 'export' ||
+    value === 'drift-check' ||
+    value === 'restore'
+  ) {
+    return value
   }
 
-  // Basic XML validation - check for basic structure
-  const trimmed = content.trim()
-  if (!trimmed.startsWith('<') || !trimmed.endsWith('>')) {
-    return false
+  throw new Error(
+    `${name} input must be one of: deploy, export, drift-check, restore`
+  )
+}
+
+/**
+ * Parse a list input with one value per line or separated by commas
+ */
+export function parseListInput(name: string): string[] {
+  return core
+    .getInput(name)
+    .split(/[,\r\n]/)
+    .map((value) => value.trim())
+    .filter((value) => value)
+}
+
+/**
+ * Parse a multiline input of APIM targets, one `serviceName`,
+ * `resourceGroup/serviceName` or `subscriptionId/resourceGroup/serviceName`
+ * per line
+ */
+export function parseTargetsInput(name: string): ApimTarget[] {
+  const targets: ApimTarget[] = []
+
+  for (const line of core.getInput(name).split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue
+    }
+
+    const parts = line.split('/').map((part) => part.trim())
+    if (parts.length > 3 || parts.some((part) => !part)) {
+      throw new Error(
+        `${name} input lines must be serviceName, resourceGroup/serviceName or subscriptionId/resourceGroup/serviceName`
+      )
+    }
+
+    const [serviceName, resourceGroupName, subscriptionId] = parts.reverse()
+    targets.push({
+      serviceName,
+      ...(resourceGroupName && { resourceGroupName }),
+      ...(subscriptionId && { subscriptionId })
+    })
+  }
+
+  return targets
+}
+
+/**
+ * Parse a multiline `key=value` input of secret values. Every value is masked
+ * in the log.
+ */
+export function parseSecretsInput(name: string): Record<string, string> {
+  const secrets: Record<string, string> = {}
+
+  for (const line of core.getInput(name).split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue
+    }
+
+    const separator = line.indexOf('=')
+    if (separator <= 0) {
+      throw new Error(`${name} input must contain key=value lines`)
+    }
+
+    const value = line.slice(separator + 1)
+    if (value) {
+      core.setSecret(value)
+    }
+    secrets[line.slice(0, separator).trim()] = value
   }
 
-  // Check for policies root element
-  if (!trimmed.includes('<policies>') || !trimmed.includes('</policies>')) {
+  return secrets
+}
+
+/**
+ * Parse the failure policy input: 'any' (default), 'all' or 'never'
+ */
+export function parseFailurePolicyInput(name: string): FailurePolicy {
+  const value = core.getInput(name).trim().toLowerCase() || 'any'
+
+  if (value === 'any' || value === 'all' || value === 'never') {
+    return value
+  }
+
+  throw new Error(`${name} input must be one of: any, all, never`)
+}
+
+/**
+ * Parse the prune input: 'none' (default), 'delete' or 'reset'
+ */
+export function parsePruneInput(name: string): PruneMode {
+  const value = core.getInput(name).trim().toLowerCase() || 'none'
+
+  if (value === 'none' || value === 'delete' || value === 'reset') {
+    return value
+  }
+
+  throw new Error(`${name} input must be one of: none, delete, reset`)
+}
+
+/**
+ * Parse the on_conflict input: 'abort' (default) or 'force'
+ */
+export function parseConflictInput(name: string): ConflictMode {
+  const value = core.getInput(name).trim().toLowerCase() || 'abort'
+
+  if (value === 'abort' || value === 'force') {
+    return value
+  }
+
+  throw new Error(`${name} input must be one of: abort, force`)
+}
+
+/**
+ * Parse a boolean action input, accepting 'true' or 'false' (case-insensitive)
+ */
+export function parseBooleanInput(
+  name: string,
+  defaultValue: boolean = false
+): boolean {
+  const value = core.getInput(name).trim().toLowerCase()
+
+  if (!value) {
+    return defaultValue
+  }
+  if (value === 'true') {
+    return true
+  }
+  if (value === 'false') {
     return false
   }
 
-  return true
+  throw new Error(`${name} input must be 'true' or 'false'`)
+}
+
+/**
+ * Format the target of a policy for log messages, e.g. `global`,
+ * `fragments/auth`, `products/starter`, `api` or `api/op`
+ */
+export function formatPolicyTarget(
+  policy: Pick<PolicyFile, 'apiId' | 'operationId' | 'productId' | 'fragmentId'>
+): string {
+  if (policy.fragmentId) {
+    return `fragments/${policy.fragmentId}`
+  }
+  if (policy.productId) {
+    return `products/${policy.productId}`
+  }
+  if (!policy.apiId) {
+    return 'global'
+  }
+
+  return policy.operationId
+    ? `${policy.apiId}/${policy.operationId}`
+    : policy.apiId
+}
+
+/**
+ * Normalize policy XML for comparison so that formatting differences such as
+ * indentation, attribute order or entity escaping introduced by APIM's
+ * re-serialization are ignored. Content that cannot be parsed falls back to
+ * a line-based normalization.
+ */
+export function normalizePolicyContent(content: string): string {
+  try {
+    return canonicalizeXml(content)
+  } catch {
+    return content
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .join('\n')
+  }
+}
+
+/**
+ * Check that content is well-formed XML with the expected root element:
+ * `<policies>` for policies and `<fragment>` for policy fragments. Returns the
+ * first problem with its line and column, or undefined if the content is valid.
+ */
+export function findXmlError(
+  content: string,
+  rootElement: string = 'policies'
+): XmlParseError | undefined {
+  try {
+    const root = parseXml(content)
+    if (root.name !== rootElement) {
+      return new XmlParseError(
+        `Root element must be <${rootElement}> but found <${root.name}>`,
+        root.line,
+        root.column
+      )
+    }
+    return undefined
+  } catch (error) {
+    if (error instanceof XmlParseError) {
+      return error
+    }
+    throw error
+  }
 }
 
 /**
@@ -78,6 +364,53 @@ export function extractOperationIdFromPath(filePath: string): string | null {
   return match ? match[1] : null
 }
 
+/**
+ * Determine if path is the global (all APIs) policy: policies/global.xml
+ */
+export function isGlobalPolicy(filePath: string): boolean {
+  return filePath.match(/policies[/\\]global\.xml$/) !== null
+}
+
+/**
+ * Extract fragment ID from file path
+ */
+export function extractFragmentIdFromPath(filePath: string): string | null {
+  // Match pattern: policies/fragments/<fragmentId>.xml
+  const match = filePath.match(/policies[/\\]fragments[/\\]([^/\\]+)\.xml$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Determine if path is a policy fragment: policies/fragments/<fragmentId>.xml.
+ * policies/fragments/api.xml is the API-level policy of an API named
+ * 'fragments', so it is not a fragment.
+ */
+export function isPolicyFragment(filePath: string): boolean {
+  return (
+    extractFragmentIdFromPath(filePath) !== null && !isApiLevelPolicy(filePath)
+  )
+}
+
+/**
+ * Extract product ID from file path
+ */
+export function extractProductIdFromPath(filePath: string): string | null {
+  // Match pattern: policies/products/<productId>.xml
+  const match = filePath.match(/policies[/\\]products[/\\]([^/\\]+)\.xml$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Determine if path is a product policy: policies/products/<productId>.xml.
+ * policies/products/api.xml is the API-level policy of an API named
+ * 'products', so it is not a product policy.
+ */
+export function isProductPolicy(filePath: string): boolean {
+  return (
+    extractProductIdFromPath(filePath) !== null && !isApiLevelPolicy(filePath)
+  )
+}
+
 /**
  * Determine if path is an API-level policy
  */
@@ -0,0 +1,590 @@
+/**
+ * Lightweight XML parser for APIM policy documents.
+ *
+ * Policy expressions (`@(...)` and `@{...}`) may contain characters that plain
+ * XML does not allow, such as `<` or unescaped quotes. APIM accepts them, so
+ * the parser skips over expressions as balanced blocks instead of rejecting
+ * them.
+ */
+
+/**
+ * XML attribute
+ */
+export interface XmlAttribute {
+  /** Attribute name */
+  name: string
+  /** Attribute value with entity references decoded */
+  value: string
+  /** 1-based line of the attribute name */
+  line: number
+  /** 1-based column of the attribute name */
+  column: number
+}
+
+/**
+ * XML element
+ */
+export interface XmlElement {
+  type: 'element'
+  /** Element name */
+  name: string
+  /** Attributes in document order */
+  attributes: XmlAttribute[]
+  /** Child nodes in document order */
+  children: XmlNode[]
+  /** 1-based line of the start tag */
+  line: number
+  /** 1-based column of the start tag */
+  column: number
+}
+
+/**
+ * XML text or CDATA content
+ */
+export interface XmlText {
+  type: 'text'
+  /** Text with entity references decoded */
+  value: string
+  /** 1-based line where the text starts */
+  line: number
+  /** 1-based column where the text starts */
+  column: number
+}
+
+/**
+ * XML comment
+ */
+export interface XmlComment {
+  type: 'comment'
+  /** Comment text without the delimiters */
+  value: string
+  /** 1-based line where the comment starts */
+  line: number
+  /** 1-based column where the comment starts */
+  column: number
+}
+
+export type XmlNode = XmlElement | XmlText | XmlComment
+
+/**
+ * Error thrown when a document is not well-formed
+ */
+export class XmlParseError extends Error {
+  /** Description of the problem without the location */
+  readonly reason: string
+  /** 1-based line of the problem */
+  readonly line: number
+  /** 1-based column of the problem */
+  readonly column: number
+
+  constructor(reason: string, line: number, column: number) {
+    super(`${reason} (line ${line}, column ${column})`)
+    this.name = 'XmlParseError'
+    this.reason = reason
+    this.line = line
+    this.column = column
+  }
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+}
+
+const CLOSING_BRACKETS: Record<string, string> = {
+  '(': ')',
+  '{': '}',
+  '[': ']'
+}
+
+function isNameStartChar(char: string): boolean {
+  return /[A-Za-z_:]/.test(char) || char.charCodeAt(0) >= 0xc0
+}
+
+function isNameChar(char: string): boolean {
+  return isNameStartChar(char) || /[0-9.-]/.test(char) || char === '·'
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r'
+}
+
+class XmlParser {
+  private readonly text: string
+  private readonly lineStarts: number[] = [0]
+  private pos = 0
+
+  constructor(text: string) {
+    this.text = text
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        this.lineStarts.push(i + 1)
+      }
+    }
+  }
+
+  parseDocument(): XmlElement {
+    if (this.text.charCodeAt(0) === 0xfeff) {
+      this.pos = 1
+    }
+
+    this.skipMisc()
+    if (this.pos >= this.text.length) {
+      this.fail('Document is empty')
+    }
+    if (this.text[this.pos] !== '<') {
+      this.fail('Expected root element')
+    }
+
+    const root = this.parseElement()
+
+    this.skipMisc()
+    if (this.pos < this.text.length) {
+      this.fail('Unexpected content after the root element')
+    }
+
+    return root
+  }
+
+  private parseElement(): XmlElement {
+    const start = this.pos
+    this.pos++ // '<'
+
+    const name = this.parseName('Expected element name')
+    const element: XmlElement = {
+      type: 'element',
+      name,
+      attributes: [],
+      children: [],
+      ...this.location(start)
+    }
+
+    // Attributes
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace()
+
+      if (this.pos >= this.text.length) {
+        this.fail(`Unexpected end of document in start tag <${name}>`)
+      }
+      if (this.text.startsWith('/>', this.pos)) {
+        this.pos += 2
+        return element
+      }
+      if (this.text[this.pos] === '>') {
+        this.pos++
+        break
+      }
+      if (!hadWhitespace) {
+        this.fail(
+          `Unexpected character '${this.text[this.pos]}' in start tag <${name}>`
+        )
+      }
+
+      const attributeStart = this.pos
+      const attributeName = this.parseName(
+        `Unexpected character '${this.text[this.pos]}' in start tag <${name}>`
+      )
+      if (element.attributes.some((a) => a.name === attributeName)) {
+        this.fail(`Duplicate attribute '${attributeName}'`, attributeStart)
+      }
+
+      this.skipWhitespace()
+      if (this.text[this.pos] !== '=') {
+        this.fail(`Expected '=' after attribute '${attributeName}'`)
+      }
+      this.pos++
+      this.skipWhitespace()
+
+      const quote = this.text[this.pos]
+      if (quote !== '"' && quote !== "'") {
+        this.fail(`Value of attribute '${attributeName}' must be quoted`)
+      }
+      this.pos++
+
+      element.attributes.push({
+        name: attributeName,
+        value: this.parseAttributeValue(quote, attributeName),
+        ...this.location(attributeStart)
+      })
+    }
+
+    // Content
+    for (;;) {
+      if (this.pos >= this.text.length) {
+        this.fail(`Element <${name}> is not closed`, start)
+      }
+
+      if (this.text.startsWith('</', this.pos)) {
+        const closeStart = this.pos
+        this.pos += 2
+        const closeName = this.parseName('Expected element name in end tag')
+        this.skipWhitespace()
+        if (this.text[this.pos] !== '>') {
+          this.fail(`Expected '>' to close end tag </${closeName}>`)
+        }
+        if (closeName !== name) {
+          this.fail(`Expected </${name}> but found </${closeName}>`, closeStart)
+        }
+        this.pos++
+        return element
+      }
+
+      if (this.text.startsWith('<!--', this.pos)) {
+        element.children.push(this.parseComment())
+      } else if (this.text.startsWith('<![CDATA[', this.pos)) {
+        const cdataStart = this.pos
+        const end = this.text.indexOf(']]>', this.pos + 9)
+        if (end === -1) {
+          this.fail('CDATA section is not closed', cdataStart)
+        }
+        element.children.push({
+          type: 'text',
+          value: this.text.slice(this.pos + 9, end),
+          ...this.location(cdataStart)
+        })
+        this.pos = end + 3
+      } else if (this.text.startsWith('<?', this.pos)) {
+        this.skipProcessingInstruction()
+      } else if (this.text.startsWith('<!', this.pos)) {
+        this.fail('Unsupported markup declaration')
+      } else if (this.text[this.pos] === '<') {
+        element.children.push(this.parseElement())
+      } else {
+        element.children.push(this.parseText())
+      }
+    }
+  }
+
+  private parseAttributeValue(quote: string, attributeName: string): string {
+    let value = ''
+
+    for (;;) {
+      if (this.pos >= this.text.length) {
+        this.fail(`Value of attribute '${attributeName}' is not closed`)
+      }
+
+      const char = this.text[this.pos]
+      if (char === quote) {
+        this.pos++
+        return value
+      }
+      if (this.isExpressionStart()) {
+        value += this.parseExpression()
+      } else if (char === '<') {
+        this.fail(`Unescaped '<' in value of attribute '${attributeName}'`)
+      } else if (char === '&') {
+        value += this.parseEntity()
+      } else {
+        value += char
+        this.pos++
+      }
+    }
+  }
+
+  private parseText(): XmlText {
+    const start = this.pos
+    let value = ''
+
+    while (this.pos < this.text.length && this.text[this.pos] !== '<') {
+      if (this.isExpressionStart()) {
+        value += this.parseExpression()
+      } else if (this.text[this.pos] === '&') {
+        value += this.parseEntity()
+      } else {
+        value += this.text[this.pos]
+        this.pos++
+      }
+    }
+
+    return { type: 'text', value, ...this.location(start) }
+  }
+
+  private parseComment(): XmlComment {
+    const start = this.pos
+    const end = this.text.indexOf('-->', this.pos + 4)
+    if (end === -1) {
+      this.fail('Comment is not closed', start)
+    }
+
+    const value = this.text.slice(this.pos + 4, end)
+    this.pos = end + 3
+    return { type: 'comment', value, ...this.location(start) }
+  }
+
+  private skipProcessingInstruction(): void {
+    const start = this.pos
+    const end = this.text.indexOf('?>', this.pos + 2)
+    if (end === -1) {
+      this.fail('Processing instruction is not closed', start)
+    }
+    this.pos = end + 2
+  }
+
+  /**
+   * Skip whitespace, comments and processing instructions outside the root
+   */
+  private skipMisc(): void {
+    for (;;) {
+      this.skipWhitespace()
+      if (this.text.startsWith('<!--', this.pos)) {
+        this.parseComment()
+      } else if (this.text.startsWith('<?', this.pos)) {
+        this.skipProcessingInstruction()
+      } else if (this.text.startsWith('<!DOCTYPE', this.pos)) {
+        this.fail('DOCTYPE declarations are not supported')
+      } else {
+        return
+      }
+    }
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.pos
+    while (this.pos < this.text.length && isWhitespace(this.text[this.pos])) {
+      this.pos++
+    }
+    return this.pos > start
+  }
+
+  private parseName(errorMessage: string): string {
+    const start = this.pos
+    if (this.pos >= this.text.length || !isNameStartChar(this.text[this.pos])) {
+      this.fail(errorMessage)
+    }
+    while (this.pos < this.text.length && isNameChar(this.text[this.pos])) {
+      this.pos++
+    }
+    return this.text.slice(start, this.pos)
+  }
+
+  /**
+   * Decode the entity reference at the current position
+   */
+  private parseEntity(): string {
+    const decoded = this.tryParseEntity()
+    if (decoded === null) {
+      this.fail("Unescaped '&' (use &amp; or a valid entity reference)")
+    }
+    return decoded
+  }
+
+  private tryParseEntity(): string | null {
+    const match = /^&(#x[0-9A-Fa-f]+|#[0-9]+|[A-Za-z][A-Za-z0-9]*);/.exec(
+      this.text.slice(this.pos, this.pos + 12)
+    )
+    if (!match) {
+      return null
+    }
+
+    const reference = match[1]
+    let decoded: string | undefined
+    if (reference.startsWith('#x')) {
+      decoded = String.fromCodePoint(parseInt(reference.slice(2), 16))
+    } else if (reference.startsWith('#')) {
+      decoded = String.fromCodePoint(parseInt(reference.slice(1), 10))
+    } else {
+      decoded = PREDEFINED_ENTITIES[reference]
+      if (decoded === undefined) {
+        this.fail(`Unknown entity '&${reference};'`)
+      }
+    }
+
+    this.pos += match[0].length
+    return decoded
+  }
+
+  private isExpressionStart(): boolean {
+    return (
+      this.text[this.pos] === '@' &&
+      (this.text[this.pos + 1] === '(' || this.text[this.pos + 1] === '{')
+    )
+  }
+
+  /**
+   * Read a policy expression up to its matching closing bracket, tracking
+   * nested brackets, C# string and character literals and comments. Entity
+   * references are decoded when they are well-formed and kept verbatim
+   * otherwise, so both raw and XML-escaped expressions are accepted.
+   */
+  private parseExpression(): string {
+    const start = this.pos
+    const expected: string[] = []
+    let value = '@'
+    let literal: '"' | "'" | '@"' | null = null
+    let comment: 'line' | 'block' | null = null
+
+    this.pos++ // '@'
+
+    while (this.pos < this.text.length) {
+      const raw = this.text[this.pos]
+      let char = raw
+      if (raw === '&') {
+        const decoded = this.tryParseEntity()
+        if (decoded === null) {
+          this.pos++
+        } else {
+          char = decoded
+        }
+      } else {
+        this.pos++
+      }
+      const next = this.text[this.pos]
+
+      value += char
+
+      if (comment === 'line') {
+        if (char === '\n') {
+          comment = null
+        }
+      } else if (comment === 'block') {
+        if (char === '*' && next === '/') {
+          value += next
+          this.pos++
+          comment = null
+        }
+      } else if (literal === '@"') {
+        if (char === '"') {
+          if (next === '"') {
+            value += next
+            this.pos++
+          } else {
+            literal = null
+          }
+        }
+      } else if (literal) {
+        if (char === '\\' && this.pos < this.text.length) {
+          value += next
+          this.pos++
+        } else if (char === literal || char === '\n') {
+          literal = null
+        }
+      } else if (char === '/' && (next === '/' || next === '*')) {
+        comment = next === '/' ? 'line' : 'block'
+        value += next
+        this.pos++
+      } else if (char === '@' && next === '"') {
+        literal = '@"'
+        value += next
+        this.pos++
+      } else if (char === '"' || char === "'") {
+        literal = char
+      } else if (CLOSING_BRACKETS[char]) {
+        expected.push(CLOSING_BRACKETS[char])
+      } else if (char === ')' || char === '}' || char === ']') {
+        if (expected.pop() !== char) {
+          this.fail(`Unbalanced '${char}' in policy expression`, this.pos - 1)
+        }
+        if (expected.length === 0) {
+          return value
+        }
+      }
+    }
+
+    this.fail('Policy expression is not closed', start)
+  }
+
+  private location(index: number): { line: number; column: number } {
+    // Binary search for the last line start at or before index
+    let low = 0
+    let high = this.lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (this.lineStarts[mid] <= index) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return { line: low + 1, column: index - this.lineStarts[low] + 1 }
+  }
+
+  private fail(reason: string, index: number = this.pos): never {
+    const { line, column } = this.location(index)
+    throw new XmlParseError(reason, line, column)
+  }
+}
+
+/**
+ * Parse an XML document and return its root element
+ *
+ * @throws {XmlParseError} when the document is not well-formed
+ */
+export function parseXml(content: string): XmlElement {
+  return new XmlParser(content).parseDocument()
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;')
+}
+
+/**
+ * Split text into trimmed, non-empty lines
+ */
+function normalizeTextLines(value: string): string[] {
+  return value
+    .split(/\r\n?|\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+}
+
+function serializeElement(element: XmlElement, indent: string): string[] {
+  const attributes = [...element.attributes]
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    .map((a) => ` ${a.name}="${escapeAttribute(a.value)}"`)
+    .join('')
+  const openTag = `<${element.name}${attributes}`
+
+  const children = element.children.filter(
+    (child) => child.type !== 'text' || normalizeTextLines(child.value).length
+  )
+
+  if (children.length === 0) {
+    return [`${indent}${openTag} />`]
+  }
+
+  // Keep single-line text content on the same line as its element
+  if (children.length === 1 && children[0].type === 'text') {
+    const lines = normalizeTextLines(children[0].value)
+    if (lines.length === 1) {
+      return [`${indent}${openTag}>${escapeText(lines[0])}</${element.name}>`]
+    }
+  }
+
+  const childIndent = `${indent}  `
+  const lines = [`${indent}${openTag}>`]
+  for (const child of children) {
+    if (child.type === 'element') {
+      lines.push(...serializeElement(child, childIndent))
+    } else if (child.type === 'comment') {
+      lines.push(`${childIndent}<!-- ${child.value.trim()} -->`)
+    } else {
+      for (const line of normalizeTextLines(child.value)) {
+        lines.push(`${childIndent}${escapeText(line)}`)
+      }
+    }
+  }
+  lines.push(`${indent}</${element.name}>`)
+
+  return lines
+}
+
+/**
+ * Serialize an XML document in a canonical form: two-space indentation,
+ * attributes sorted by name, entity references and CDATA sections written in
+ * a single escaped form and insignificant whitespace removed
+ *
+ * @throws {XmlParseError} when the document is not well-formed
+ */
+export function canonicalizeXml(content: string): string {
+  return serializeElement(parseXml(content), '').join('\n')
+}